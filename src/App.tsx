@@ -2,7 +2,7 @@
 import { Routes, Route } from "react-router-dom";
 
 import './globals.css';
-import { AllUsers, CreatePost, EditPost, Explore, Home, PostDetails, Profile, Saved, UpdateProfile } from "./_root/pages";
+import { AllUsers, CreatePost, EditPost, Explore, Home, Notifications, PostDetails, Profile, Saved, SavedCollection, TagPosts, UpdateProfile } from "./_root/pages";
 import SigninForm from "./_auth/forms/SigninForm";
 import SignupForm from "./_auth/forms/SignupForm";
 import AuthLayout from "./_auth/AuthLayout";
@@ -26,10 +26,13 @@ const App = () => {
           <Route index element={<Home />} />
           <Route path="/explore" element={<Explore />} />
           <Route path="/saved" element={<Saved />} />
+          <Route path="/saved/:collectionId" element={<SavedCollection />} />
           <Route path="/all-users" element={<AllUsers />} />
+          <Route path="/notifications" element={<Notifications />} />
           <Route path="/create-post" element={<CreatePost />} />
           <Route path="/update-post/:id" element={<EditPost />} />
           <Route path="/posts/:id" element={<PostDetails />} />
+          <Route path="/tags/:tag" element={<TagPosts />} />
           <Route path="/profile/:id/*" element={<Profile />} />
           <Route path="/update-profile/:id" element={<UpdateProfile />} />
       </Route>
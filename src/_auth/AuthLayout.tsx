@@ -1,4 +1,4 @@
-import { useUserContext } from "@/context/AuthContext";
+import { useUserContext } from "@/context/userContext";
 import { Outlet, Navigate } from "react-router-dom";
 
 export default function AuthLayout() {
@@ -18,7 +18,8 @@ import { Input } from "@/components/ui/input";
 import { SigninValidation } from "@/lib/validation";
 import Loader from "@/components/shared/Loader";
 import { useSignInAccount } from "@/lib/react-query/queriesAndMutations";
-import { useUserContext } from "@/context/AuthContext";
+import { useUserContext } from "@/context/userContext";
+import { getErrorMessage } from "@/lib/errors";
 
 const SigninForm = () => {
   const { toast } = useToast();
@@ -37,10 +38,18 @@ const SigninForm = () => {
  
 
   const handleSignin  = async (user: z.infer<typeof SigninValidation>) => {
-    const session = await signInAccount(user)
-      
-    if(!session) {
-      toast({ title: "Login failed. Please try again!" });
+    try {
+      await signInAccount(user);
+    }
+    catch (error) {
+      toast({
+        title: getErrorMessage(error, {
+          auth: "Incorrect email or password.",
+          conflict: "You are already logged in on this device.",
+          "rate-limit": "Too many login attempts. Please wait a moment and try again.",
+          unknown: "Login failed. Please try again!",
+        })
+      });
 
       return;
     }
@@ -18,7 +18,8 @@ import { Input } from "@/components/ui/input";
 import { SignupValidation } from "@/lib/validation";
 import Loader from "@/components/shared/Loader";
 import { useCreateUserAccount, useSignInAccount } from "@/lib/react-query/queriesAndMutations";
-import { useUserContext } from "@/context/AuthContext";
+import { useUserContext } from "@/context/userContext";
+import { getErrorMessage } from "@/lib/errors";
 
 const SignupForm = () => {
   const { toast } = useToast();
@@ -41,41 +42,43 @@ const SignupForm = () => {
 
   const handleSignup = async (user: z.infer<typeof SignupValidation>) => {
     try {
+      await createUserAccount(user);
+    }
+    catch (error) {
+      toast({
+        title: getErrorMessage(error, {
+          conflict: "An account with this email already exists.",
+          validation: "Some of your details were rejected. Please check them and try again.",
+          unknown: "Sign up failed. Please try again!",
+        })
+      });
+
+      return;
+    }
 
-      const newUser = await createUserAccount(user);
-      console.log(newUser);
-
-      if (!newUser) {
-        toast({ title: "Sign up failed. Please try again!" });
-
-        return;
-      }
-      const session = await signInAccount({
+    try {
+      await signInAccount({
         email: user.email,
         password: user.password
-      })
-      if(!session) {
-        
-        toast({ title: "Something went wrong. Please login into your account!" });
-  
-        navigate("/sign-in");
-        return;
-      }
-      const isLoggedIn = await checkAuthUser();
-      if (isLoggedIn) {
-        form.reset();
-  
-        navigate("/");
-      }
-      else {
-        toast({ title: "Login failed. Please try again!" });
-
-        return;
-      }
+      });
+    }
+    catch (error) {
+      toast({ title: "Your account was created, but we couldn't log you in. Please log in to your account!" });
+
+      navigate("/sign-in");
+      return;
+    }
+
+    const isLoggedIn = await checkAuthUser();
+    if (isLoggedIn) {
+      form.reset();
+
+      navigate("/");
     }
+    else {
+      toast({ title: "Login failed. Please try again!" });
 
-    catch(error) {
-      console.log({ error });
+      return;
     }
   }
 
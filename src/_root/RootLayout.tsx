@@ -3,9 +3,18 @@
 import Bottombar from "@/components/shared/Bottombar"
 import LeftSidebar from "@/components/shared/LeftSidebar"
 import Topbar from "@/components/shared/Topbar"
+import { useUserContext } from "@/context/userContext"
+import useLegacyTagMigration from "@/hooks/useLegacyTagMigration"
+import useOrphanedFileSweep from "@/hooks/useOrphanedFileSweep"
+import useRealtimeSync from "@/hooks/useRealtimeSync"
 import { Outlet } from "react-router-dom"
 
 const RootLayout = () => {
+  const { user } = useUserContext();
+  useRealtimeSync(user.id);
+  useOrphanedFileSweep(user.id);
+  useLegacyTagMigration(user.id);
+
   return (
     <div className="w-full md:flex">
       <Topbar />
@@ -1,34 +1,32 @@
 import Loader from '@/components/shared/Loader'
 import UserCard from '@/components/shared/UserCard';
-import { useToast } from '@/components/ui/use-toast'
+import LoadMore from '@/components/shared/LoadMore';
+import QueryError from '@/components/shared/QueryError';
 import { useGetUsers } from '@/lib/react-query/queriesAndMutations';
+import { flattenPages } from '@/lib/utils';
 
 const AllUsers = () => {
 
-  const { toast } = useToast();
-  
-  const { data: creators, isPending, isError: isErrorCreators} = useGetUsers();
-
-  if (isErrorCreators) {
-    toast({ title: "Something went wrong." })
-    return;
-  }
+  const { data: creators, isPending, isError: isErrorCreators, error, refetch, fetchNextPage, hasNextPage } = useGetUsers();
 
   return (
     <div className='common-container'>
       <div className="user-container">
         <h2 className='h3-bold md:h2-bold text-left w-full'>All Users</h2>
-        {isPending && !creators ? (
+        {isErrorCreators && !creators ? (
+          <QueryError error={error} onRetry={refetch} />
+        ) : isPending && !creators ? (
           <Loader />
         ) : (
           <ul className='user-grid'>
-            {creators?.documents.map((creator) => (
+            {flattenPages(creators).map((creator) => (
               <li key={creator?.$id} className='flex-1 min-w-[200px] w-full'>
                 <UserCard user={creator} />
               </li>
             ))}
           </ul>
         )}
+        <LoadMore hasNextPage={hasNextPage} fetchNextPage={fetchNextPage} />
       </div>
     </div>
   )
@@ -1,12 +1,24 @@
 import PostForm from "@/components/forms/PostForm";
 import Loader from "@/components/shared/Loader";
+import QueryError from "@/components/shared/QueryError";
 import { useGetPostById } from "@/lib/react-query/queriesAndMutations";
 import { useParams } from "react-router-dom"
 
 const EditPost = () => {
 
   const { id } = useParams();
-  const { data: post, isPending} = useGetPostById(id);
+  const { data: post, isPending, isError, error, refetch } = useGetPostById(id);
+
+  if (isError) {
+    return (
+      <div className="flex-center w-full h-full">
+        <QueryError
+          error={error}
+          onRetry={refetch}
+          messages={{ "not-found": "This post doesn't exist anymore." }} />
+      </div>
+    )
+  }
 
   if (isPending) {
     return (
@@ -1,10 +1,16 @@
+import ExploreFilterMenu from '@/components/shared/ExploreFilterMenu';
 import GridPostList from '@/components/shared/GridPostList';
 import Loader from '@/components/shared/Loader';
 import SearchResults from '@/components/shared/SearchResults';
+import SearchSuggestions from '@/components/shared/SearchSuggestions';
 import { Input } from '@/components/ui/input'
 import useDebounce from '@/hooks/useDebounce';
-import { useGetPosts, useSearchPosts } from '@/lib/react-query/queriesAndMutations';
-import { useEffect, useState } from 'react'
+import useSearchNavigation from '@/hooks/useSearchNavigation';
+import { useAddRecentSearch, useGetInfinitePosts } from '@/lib/react-query/queriesAndMutations';
+import { useUserContext } from '@/context/userContext';
+import { DEFAULT_EXPLORE_FILTERS, EXPLORE_PERIODS } from '@/constants';
+import { IExploreFilters, ISearchTab } from '@/types';
+import { KeyboardEvent, useEffect, useState } from 'react'
 import { useInView } from "react-intersection-observer";
 
 // export type SearchResultProps = {
@@ -30,36 +36,64 @@ import { useInView } from "react-intersection-observer";
 const Explore = () => {
 
   const { ref, inView } = useInView();
-  const { data: posts, fetchNextPage, hasNextPage } = useGetPosts();
+  const [filters, setFilters] = useState<IExploreFilters>(DEFAULT_EXPLORE_FILTERS);
+  const { data: posts, fetchNextPage, hasNextPage } = useGetInfinitePosts(filters);
 
   const [searchValue, setSearchValue] = useState("");
-  const debouncedSearch = useDebounce(searchValue, 500)
-  const { data: searchedPosts, isFetching: isSearchFetching } = useSearchPosts(debouncedSearch);
+  const debouncedSearch = useDebounce(searchValue.trim(), 500)
+  const [searchTab, setSearchTab] = useState<ISearchTab>("top");
+  const { containerRef, handleKeyDown } = useSearchNavigation<HTMLDivElement>(`${searchTab}:${debouncedSearch}`);
+
+  // Suggestions follow the typing more closely than the full results do
+  const { user } = useUserContext();
+  const { mutate: addRecentSearch } = useAddRecentSearch();
+  const [isSuggestionsOpen, setIsSuggestionsOpen] = useState(false);
+  const suggestionTerm = useDebounce(searchValue.trim(), 200);
+  const suggestionsNavigation = useSearchNavigation<HTMLDivElement>(suggestionTerm);
+
+  const recordSearch = (query: string) => {
+    if (user.id && query.trim()) addRecentSearch({ userId: user.id, query });
+  };
+
+  const selectSuggestion = (query: string, tab: ISearchTab = "top") => {
+    setSearchValue(query);
+    setSearchTab(tab);
+    setIsSuggestionsOpen(false);
+    recordSearch(query);
+  };
+
+  // Keys move through the suggestions while they are open and through the results otherwise
+  const handleSearchKeyDown = (event: KeyboardEvent<HTMLElement>) => {
+    if (isSuggestionsOpen) {
+      suggestionsNavigation.handleKeyDown(event);
+      if (event.key === "Escape") setIsSuggestionsOpen(false);
+      if (event.defaultPrevented) return;
+    }
+
+    handleKeyDown(event);
+    if (event.key === "Enter" && !event.defaultPrevented) {
+      setIsSuggestionsOpen(false);
+      recordSearch(searchValue);
+    }
+  };
 
 
   useEffect(() => {
     if (inView && !searchValue) {
       fetchNextPage();
     }
-  }, [inView, searchValue])
-
-  if (!posts)
-    return (
-      <div className='flex-center w-full h-full'>
-        <Loader />
-      </div>
-    );
-
+  }, [inView, searchValue, fetchNextPage])
 
   const shouldShowSearchResults = searchValue !== "";
-  const shouldShowPosts = !shouldShowSearchResults && posts.pages.every((item) => item?.documents.length === 0)
+  const shouldShowPosts = !shouldShowSearchResults && !!posts && posts.pages.every((item) => item?.documents.length === 0)
+  const title = EXPLORE_PERIODS.find((period) => period.value === filters.period)?.title;
 
 
   return (
     <div className="explore-container">
       <div className="explore-inner_container">
-        <h2 className='h3-bold md:h2-bold w-full'>Search Posts</h2>
-        <div className='flex gap-1 px-4 w-full rounded-lg bg-dark-4'>
+        <h2 className='h3-bold md:h2-bold w-full'>Search</h2>
+        <div className='relative flex gap-1 px-4 w-full rounded-lg bg-dark-4'>
           <img
             src="/assets/icons/search.svg"
             width={24}
@@ -67,46 +101,66 @@ const Explore = () => {
             alt="search" />
           <Input
             type='text'
-            placeholder='Search'
+            placeholder='Search posts, people, tags and places'
             className='explore-search'
             value={searchValue}
             onChange={(e) => {
               const { value } = e.target;
               setSearchValue(value)
+              setIsSuggestionsOpen(true)
             }}
+            onFocus={() => setIsSuggestionsOpen(true)}
+            onBlur={() => setIsSuggestionsOpen(false)}
+            onKeyDown={handleSearchKeyDown}
           />
+          {isSuggestionsOpen && (
+            <SearchSuggestions
+              containerRef={suggestionsNavigation.containerRef}
+              searchTerm={suggestionTerm}
+              onSelect={selectSuggestion}
+              onNavigate={() => recordSearch(searchValue)}
+            />
+          )}
         </div>
       </div>
-      
-      <div className='flex-between w-full max-w-5xl mt-16 mb-7'>
-        <h3 className='body-bold md:h3-bold'>Popular Today</h3>
-        <div className='flex-center gap-3 bg-dark-3 rounded-xl px-4 py-2 cursor-pointer'>
-          <p className='small-medium md:base-medium text-light-2'>All</p>
-          <img
-            src="/assets/icons/filter.svg"
-            height={20}
-            width={20}
-            alt="filter" />
-        </div>
-      </div>
-      <div className='flex flex-wrap gap-9 w-full max-w-5xl'>
-        {shouldShowSearchResults ? (
+
+      {shouldShowSearchResults ? (
+        <div ref={containerRef} className='w-full max-w-5xl mt-10'>
           <SearchResults
-            isSearchFetching={isSearchFetching}
-            searchedPosts={searchedPosts}
+            searchTerm={debouncedSearch}
+            activeTab={searchTab}
+            onTabChange={setSearchTab}
           />
-        ) : shouldShowPosts ? (
-          <p className='text-light-4 mt-10 text-center w-full'>End of Posts</p>
-        ) : (
-          posts.pages.map((item, index) => (
-            <GridPostList key={`page-${index}`} posts={item?.documents} />          ))
-        )}
-        {hasNextPage && !searchValue && (
-          <div ref={ref} className='mt-10'>
-            <Loader />
+        </div>
+      ) : (
+        <>
+          <div className='flex-between w-full max-w-5xl mt-16 mb-7'>
+            <h3 className='body-bold md:h3-bold'>
+              {title}
+              {filters.tag && <span className='text-light-3'> #{filters.tag}</span>}
+            </h3>
+            <ExploreFilterMenu filters={filters} onChange={setFilters} />
           </div>
-        )}
-      </div>
+          <div className='flex flex-wrap gap-9 w-full max-w-5xl'>
+            {!posts ? (
+              <div className='flex-center w-full'>
+                <Loader />
+              </div>
+            ) : shouldShowPosts ? (
+              <p className='text-light-4 mt-10 text-center w-full'>No posts match these filters</p>
+            ) : (
+              posts.pages.map((item, index) => (
+                <GridPostList key={`page-${index}`} posts={item?.documents} />
+              ))
+            )}
+            {hasNextPage && (
+              <div ref={ref} className='mt-10'>
+                <Loader />
+              </div>
+            )}
+          </div>
+        </>
+      )}
     </div>
   )
 }
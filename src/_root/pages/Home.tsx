@@ -1,62 +1,182 @@
 import Loader from "@/components/shared/Loader";
 import PostCard from "@/components/shared/PostCard";
+import QueryError from "@/components/shared/QueryError";
 import UserCard from "@/components/shared/UserCard";
-import { useGetRecentPosts, useGetUsers } from "@/lib/react-query/queriesAndMutations";
-import { Models } from "appwrite";
+import { useUserContext } from "@/context/userContext";
+import useNewPostsCount from "@/hooks/useNewPostsCount";
+import { QUERY_KEYS } from "@/lib/react-query/queryKeys";
+import LoadMore from "@/components/shared/LoadMore";
+import { useGetFollowing, useGetFollowingPosts, useGetRecentPosts, useGetUsers } from "@/lib/react-query/queriesAndMutations";
+import { flattenPages } from "@/lib/utils";
+import { useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { IUserDocument } from "@/types";
+
+type FeedTab = "recent" | "following";
+
+type FollowingFeedProps = {
+  creators?: IUserDocument[];
+}
+
+const FollowingFeed = ({ creators }: FollowingFeedProps) => {
+  const { user } = useUserContext();
+
+  const {
+    data: following,
+    isPending: isFollowingLoading,
+    isError: isFollowingError,
+    error: followingError,
+    refetch: refetchFollowing,
+  } = useGetFollowing(user.id);
+  const {
+    data: posts,
+    isError: isPostsError,
+    error: postsError,
+    refetch: refetchPosts,
+    fetchNextPage,
+    hasNextPage,
+  } = useGetFollowingPosts(user.id);
+
+  if (isFollowingError) return <QueryError error={followingError} onRetry={refetchFollowing} />;
+  // A failed next page keeps the posts already shown
+  if (isPostsError && !posts) return <QueryError error={postsError} onRetry={refetchPosts} />;
+
+  if (isFollowingLoading) return <Loader />;
+
+  if (!following || following.total === 0) {
+    const suggestedCreators = creators
+      ?.filter((creator) => creator.$id !== user.id)
+      .slice(0, 4);
+
+    return (
+      <div className="flex flex-col items-center gap-6 w-full">
+        <p className="body-medium text-light-3 text-center">
+          You are not following anyone yet. Follow some creators to fill this feed.
+        </p>
+        <ul className="user-grid">
+          {suggestedCreators?.map((creator) => (
+            <li key={creator.$id} className="flex-1 min-w-[200px] w-full">
+              <UserCard user={creator} />
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  if (!posts) return <Loader />;
+
+  const followingPosts = flattenPages(posts);
+
+  return (
+    <>
+      {followingPosts.length === 0 ? (
+        <p className="text-light-4 mt-10 text-center w-full">
+          No posts from the people you follow yet
+        </p>
+      ) : (
+        <ul className="flex flex-col flex-1 gap-9 w-full">
+          {followingPosts.map((post) => (
+            <li key={post.$id} className="flex justify-center w-full">
+              <PostCard post={post} />
+            </li>
+          ))}
+        </ul>
+      )}
+      <LoadMore hasNextPage={hasNextPage} fetchNextPage={fetchNextPage} />
+    </>
+  );
+};
 
 const Home = () => {
+  const [feed, setFeed] = useState<FeedTab>("recent");
+  const { user } = useUserContext();
+  const queryClient = useQueryClient();
+  const { count: newPostsCount, reset: resetNewPosts } = useNewPostsCount(user.id);
+
   const {
     data: posts,
     isPending: isPostLoading,
     isError: isErrorPosts,
+    error: postsError,
+    refetch: refetchPosts,
+    fetchNextPage,
+    hasNextPage,
   } = useGetRecentPosts();
   
   const {
     data: creators,
     isPending: isUserLoading,
     isError: isErrorCreators,
+    error: creatorsError,
+    refetch: refetchCreators,
   } = useGetUsers(20);
 
 
-  if (isErrorPosts || isErrorCreators) {
-    return (
-      <div className="flex flex-1">
-        <div className="home-container">
-          <p className="body-medium text-light-1">Something bad happened</p>
-        </div>
-        <div className="home-creators">
-          <p className="body-medium text-light-1">Something bad happened</p>
-        </div>
-      </div>
-    );
-  }
+  const handleShowNewPosts = () => {
+    queryClient.invalidateQueries({
+      queryKey: [QUERY_KEYS.GET_RECENT_POSTS],
+    });
+    resetNewPosts();
+  };
 
   return (
     <div className="flex flex-1">
       <div className="home-container">
         <div className="home-posts">
           <h2 className="h3-bold md:h2-bold text-left w-full">Home Feed</h2>
-          {isPostLoading && !posts ? (
+          <div className="flex w-full">
+            <button
+              type="button"
+              onClick={() => setFeed("recent")}
+              className={`profile-tab rounded-l-lg ${feed === "recent" && "!bg-dark-3"}`}>
+              Recent
+            </button>
+            <button
+              type="button"
+              onClick={() => setFeed("following")}
+              className={`profile-tab rounded-r-lg ${feed === "following" && "!bg-dark-3"}`}>
+              Following
+            </button>
+          </div>
+          {feed === "recent" && newPostsCount > 0 && (
+            <button
+              type="button"
+              onClick={handleShowNewPosts}
+              className="sticky top-0 z-20 rounded-full bg-primary-500 px-5 py-2 small-semibold text-light-1">
+              {newPostsCount} new {newPostsCount === 1 ? "post" : "posts"}
+            </button>
+          )}
+          {feed === "following" ? (
+            <FollowingFeed creators={flattenPages(creators)} />
+          ) : isErrorPosts && !posts ? (
+            <QueryError error={postsError} onRetry={refetchPosts} />
+          ) : isPostLoading && !posts ? (
             <Loader />
           ) : (
-            <ul className="flex flex-col flex-1 gap-9 w-full">
-              {posts?.documents.map((post: Models.Document) => (
-                <li key={post.$id} className="flex justify-center w-full">
-                  <PostCard post={post} />
-                </li>
-              ))}
-            </ul>
+            <>
+              <ul className="flex flex-col flex-1 gap-9 w-full">
+                {flattenPages(posts).map((post) => (
+                  <li key={post.$id} className="flex justify-center w-full">
+                    <PostCard post={post} />
+                  </li>
+                ))}
+              </ul>
+              <LoadMore hasNextPage={hasNextPage} fetchNextPage={fetchNextPage} />
+            </>
           )}
         </div>
       </div>
 
       <div className="home-creators">
         <h3 className="h3-bold text-light-1">Top Creators</h3>
-        {isUserLoading && !creators ? (
+        {isErrorCreators && !creators ? (
+          <QueryError error={creatorsError} onRetry={refetchCreators} />
+        ) : isUserLoading && !creators ? (
           <Loader />
         ) : (
           <ul className="grid 2xl:grid-cols-2 gap-6">
-            {creators?.documents.map((creator) => (
+            {flattenPages(creators).map((creator) => (
               <li key={creator?.$id}>
                 <UserCard user={creator} />
               </li>
@@ -1,12 +1,21 @@
 import GridPostList from '@/components/shared/GridPostList';
 import Loader from '@/components/shared/Loader';
-import { useGetCurrentUser } from '@/lib/react-query/queriesAndMutations'
+import LoadMore from '@/components/shared/LoadMore';
+import QueryError from '@/components/shared/QueryError';
+import { useUserContext } from '@/context/userContext';
+import { useGetLikedPosts } from '@/lib/react-query/queriesAndMutations'
+import { flattenPages } from '@/lib/utils';
 
 
 const LikedPosts = () => {
-  const { data: currentUser } = useGetCurrentUser();
+  const { user } = useUserContext();
+  const { data, isError, error, refetch, fetchNextPage, hasNextPage } = useGetLikedPosts(user.id);
+  const likedPosts = flattenPages(data);
 
-  if(!currentUser)
+  if (isError && !data)
+    return <QueryError error={error} onRetry={refetch} />;
+
+  if(!data)
     return (
       <div className='flex-center w-full h-full'>
         <Loader />
@@ -15,10 +24,11 @@ const LikedPosts = () => {
 
   return (
     <>
-      {currentUser.liked.length === 0 && (
+      {!likedPosts.length && (
         <p className='text-light-4'>No liked posts</p>
       )}
-      <GridPostList posts={currentUser.liked} showStats={false} />
+      <GridPostList posts={likedPosts} showStats={false} />
+      <LoadMore hasNextPage={hasNextPage} fetchNextPage={fetchNextPage} />
     </>
   )
 }
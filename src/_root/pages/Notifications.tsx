@@ -0,0 +1,105 @@
+import Loader from "@/components/shared/Loader";
+import LoadMore from "@/components/shared/LoadMore";
+import QueryError from "@/components/shared/QueryError";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/components/ui/use-toast";
+import { useUserContext } from "@/context/userContext";
+import { getErrorMessage } from "@/lib/errors";
+import { useGetNotifications, useMarkAllNotificationsRead, useMarkNotificationRead } from "@/lib/react-query/queriesAndMutations";
+import { flattenPages, multiFormatDateString } from "@/lib/utils";
+import { INotification, INotificationType } from "@/types";
+import { Link } from "react-router-dom";
+
+const NOTIFICATION_MESSAGES: Record<INotificationType, string> = {
+  like: "liked your post.",
+  save: "saved your post.",
+  comment: "commented on your post.",
+  follow: "started following you.",
+  mention: "mentioned you.",
+};
+
+const Notifications = () => {
+  const { user } = useUserContext();
+  const { toast } = useToast();
+
+  const { data: notifications, isError, error, refetch, fetchNextPage, hasNextPage } = useGetNotifications(user.id);
+  const { mutate: markNotificationRead } = useMarkNotificationRead();
+  const { mutate: markAllNotificationsRead, isPending: isMarkingAll } = useMarkAllNotificationsRead();
+
+  const hasNoNotifications = flattenPages(notifications).length === 0;
+
+  const handleMarkAll = () => {
+    markAllNotificationsRead(user.id, {
+      onError: (error) =>
+        toast({ title: getErrorMessage(error, { unknown: "Marking notifications as read failed. Please try again." }) }),
+    });
+  };
+
+  const handleOpen = (notification: INotification) => {
+    if (!notification.read) {
+      markNotificationRead(notification.$id);
+    }
+  };
+
+  return (
+    <div className="common-container">
+      <div className="user-container">
+        <div className="flex-between w-full">
+          <h2 className="h3-bold md:h2-bold text-left">Notifications</h2>
+          <Button
+            type="button"
+            size="sm"
+            className="shad-button_primary"
+            disabled={isMarkingAll || hasNoNotifications}
+            onClick={handleMarkAll}>
+            Mark all as read
+          </Button>
+        </div>
+
+        {isError && !notifications ? (
+          <QueryError error={error} onRetry={refetch} />
+        ) : !notifications ? (
+          <Loader />
+        ) : hasNoNotifications ? (
+          <p className="text-light-4">No notifications yet</p>
+        ) : (
+          <ul className="flex flex-col gap-3 w-full">
+            {flattenPages(notifications).map((notification) => (
+              <li key={notification.$id}>
+                <Link
+                  to={notification.postId
+                    ? `/posts/${notification.postId}`
+                    : `/profile/${notification.actor?.$id}`}
+                  onClick={() => handleOpen(notification)}
+                  className={`flex items-center gap-4 rounded-xl border border-dark-4 p-4 ${
+                    !notification.read && "bg-dark-3"}`}>
+                  <img
+                    src={notification.actor?.imageUrl || "/assets/icons/profile-placeholder.svg"}
+                    alt="actor"
+                    className="w-10 h-10 rounded-full"
+                  />
+                  <div className="flex flex-col flex-1">
+                    <p className="small-regular text-light-2">
+                      <span className="small-semibold text-light-1">{notification.actor?.name}</span>{" "}
+                      {NOTIFICATION_MESSAGES[notification.type]}
+                    </p>
+                    <p className="subtle-semibold text-light-3">
+                      {multiFormatDateString(notification.$createdAt)}
+                    </p>
+                  </div>
+                  {!notification.read && (
+                    <span className="w-2 h-2 rounded-full bg-primary-500" />
+                  )}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <LoadMore hasNextPage={hasNextPage} fetchNextPage={fetchNextPage} />
+      </div>
+    </div>
+  );
+};
+
+export default Notifications;
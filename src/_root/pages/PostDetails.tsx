@@ -1,10 +1,16 @@
 import GridPostList from "@/components/shared/GridPostList";
+import CommentList from "@/components/shared/CommentList";
 import Loader from "@/components/shared/Loader";
+import LoadMore from "@/components/shared/LoadMore";
 import PostStats from "@/components/shared/PostStats";
+import PostCarousel from "@/components/shared/PostCarousel";
+import PostVideo from "@/components/shared/PostVideo";
+import PostTags from "@/components/shared/PostTags";
+import QueryError from "@/components/shared/QueryError";
 import { Button } from "@/components/ui/button"
-import { useUserContext } from "@/context/AuthContext";
-import { useDeletePost, useGetPostById, useGetUserPosts } from "@/lib/react-query/queriesAndMutations";
-import { multiFormatDateString } from "@/lib/utils";
+import { useUserContext } from "@/context/userContext";
+import { useDeletePost, useGetPostById, useGetRelatedPosts } from "@/lib/react-query/queriesAndMutations";
+import { flattenPages, getPostImages, multiFormatDateString } from "@/lib/utils";
 import { Link, useNavigate, useParams } from "react-router-dom"
 
 const PostDetails = () => {
@@ -13,16 +19,21 @@ const PostDetails = () => {
   const navigate = useNavigate();
   const { user } = useUserContext();
 
-  const { data: post, isPending} = useGetPostById(id);
-  const { data: userPosts, isPending: isUserPostLoading } = useGetUserPosts()
+  const { data: post, isPending, isError, error, refetch } = useGetPostById(id);
+  const {
+    data: relatedPages,
+    isError: isRelatedError,
+    error: relatedError,
+    refetch: refetchRelated,
+    fetchNextPage,
+    hasNextPage,
+  } = useGetRelatedPosts(post ?? undefined);
   const { mutate: deletePost } = useDeletePost();
 
-  const relatedPosts = userPosts?.documents.filter(
-    (userPost) => userPost.$id !== id
-  )
+  const relatedPosts = relatedPages && flattenPages(relatedPages);
 
   const handleDeletePost = () => {
-    deletePost({ postId: id, imageId: post?.imageId });
+    deletePost({ postId: id, imageIds: post?.imageIds, videoId: post?.videoId });
     navigate(-1);
   }
 
@@ -42,15 +53,32 @@ const PostDetails = () => {
             <p className="small-medium lg:base-medium">Back</p>
         </Button>
       </div>
-      {isPending || !post ? (
+      {isError ? (
+        <QueryError
+          error={error}
+          onRetry={refetch}
+          messages={{ "not-found": "This post doesn't exist anymore." }}
+          className="py-10" />
+      ) : isPending || !post ? (
         <Loader />
       ) : (
         <div className="post_details-card">
-          <img
-            src={post?.imageUrl}
-            alt="creator"
-            className="post_details-img"
-          />
+          {post.mediaType === "video" && post.videoUrl ? (
+            <PostVideo
+              src={post.videoUrl}
+              poster={post.imageUrl}
+              className="post_details-img"
+              videoClassName="w-full h-full object-cover rounded-[24px]"
+              controls
+            />
+          ) : (
+            <PostCarousel
+              images={getPostImages(post)}
+              sizes="(min-width: 1280px) 50vw, 100vw"
+              className="post_details-img"
+              imageClassName="w-full h-full object-cover rounded-[24px]"
+            />
+          )}
           <div className="post_details-info">
             <div className="flex-between w-full">
               <Link
@@ -110,17 +138,11 @@ const PostDetails = () => {
             
             <div className="flex flex-col flex-1 w-full small-medium lg:base-regular">
               <p>{post?.caption}</p>
-              <ul className="flex gap-1 mt-2">
-                {post?.tags.map((tag: string, index: string) => (
-                  <li
-                    key={`${tag}${index}`}
-                    className="text-light-3 small-regular">
-                      #{tag}
-                  </li>
-                ))}
-              </ul>
+              <PostTags tags={post?.tags ?? []} />
             </div>
 
+            <CommentList post={post} />
+
             <div className="w-full">
               <PostStats post={post} userId={user.id} />
             </div>
@@ -129,17 +151,26 @@ const PostDetails = () => {
         </div>
       )}
 
-      <div className="-full max-w-5xl">
-        <hr className="border w-full border-dark-4/80" />
-        <h3 className="body-bold md:h3-bold w-full my-10">
-          More Related Posts
-        </h3>
-        {isUserPostLoading || !relatedPosts ? (
-          <Loader />
-        ) : (
-          <GridPostList posts={relatedPosts} />
-        )}
-      </div>
+      {!isError && (
+        <div className="-full max-w-5xl">
+          <hr className="border w-full border-dark-4/80" />
+          <h3 className="body-bold md:h3-bold w-full my-10">
+            More Related Posts
+          </h3>
+          {isRelatedError && !relatedPosts ? (
+            <QueryError error={relatedError} onRetry={refetchRelated} />
+          ) : !relatedPosts ? (
+            <Loader />
+          ) : relatedPosts.length === 0 ? (
+            <p className="text-light-4 text-center w-full">Nothing related to this post yet</p>
+          ) : (
+            <>
+              <GridPostList posts={relatedPosts} />
+              <LoadMore hasNextPage={hasNextPage} fetchNextPage={fetchNextPage} />
+            </>
+          )}
+        </div>
+      )}
     </div>
   )
 }
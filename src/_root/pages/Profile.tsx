@@ -1,8 +1,11 @@
 import GridPostList from "@/components/shared/GridPostList";
 import Loader from "@/components/shared/Loader";
-import { Button } from "@/components/ui/button";
-import { useUserContext } from "@/context/AuthContext";
-import { useGetUserById } from "@/lib/react-query/queriesAndMutations";
+import LoadMore from "@/components/shared/LoadMore";
+import FollowButton from "@/components/shared/FollowButton";
+import QueryError from "@/components/shared/QueryError";
+import { useUserContext } from "@/context/userContext";
+import { useGetFollowers, useGetFollowing, useGetUserById, useGetUserPosts } from "@/lib/react-query/queriesAndMutations";
+import { flattenPages } from "@/lib/utils";
 import { Link, Outlet, Route, Routes, useLocation, useParams } from "react-router-dom";
 import LikedPosts from "./LikedPosts";
 
@@ -18,12 +21,35 @@ const StatBlock = ({ value, label }: StabBlockProps) => (
   </div>
 );
 
+const UserPosts = ({ userId }: { userId?: string }) => {
+  const { data: posts, isError, error, refetch, fetchNextPage, hasNextPage } = useGetUserPosts(userId);
+
+  if (isError && !posts) return <QueryError error={error} onRetry={refetch} />;
+  if (!posts) return <Loader />;
+
+  return (
+    <>
+      <GridPostList posts={flattenPages(posts)} showUser={false} />
+      <LoadMore hasNextPage={hasNextPage} fetchNextPage={fetchNextPage} />
+    </>
+  );
+};
+
 const Profile = () => {
   const { id } = useParams();
   const { user } = useUserContext();
   const { pathname } = useLocation();
 
-  const { data: currentUser } = useGetUserById(id || "");
+  const { data: currentUser, isError, error, refetch } = useGetUserById(id || "");
+  const { data: followers } = useGetFollowers(id);
+  const { data: following } = useGetFollowing(id);
+
+  if (isError)
+    return (
+      <div className="flex-center w-full h-full">
+        <QueryError error={error} onRetry={refetch} />
+      </div>
+    );
 
   if (!currentUser)
     return (
@@ -52,9 +78,9 @@ const Profile = () => {
             </div>
 
             <div className="flex gap-8 mt-10 items-center justify-center xl:justify-start flex-wrap z-20">
-              <StatBlock value={currentUser.posts.length} label="Posts" />
-              <StatBlock value={20} label="Followers" />
-              <StatBlock value={20} label="Following" />
+              <StatBlock value={currentUser.posts?.length ?? 0} label="Posts" />
+              <StatBlock value={followers?.total ?? 0} label="Followers" />
+              <StatBlock value={following?.total ?? 0} label="Following" />
             </div>
 
             <p className="small-medium md:base-medium text-center xl:text-left mt-7 max-w-screen-sm">
@@ -81,9 +107,7 @@ const Profile = () => {
               </Link>
             </div>
             <div className={`${user.id === id && "hidden"}`}>
-              <Button type="button" className="shad-button_primary px-8">
-                Follow
-              </Button>
+              <FollowButton userId={currentUser.$id} className="px-8" />
             </div>
           </div>
         </div>
@@ -123,7 +147,7 @@ const Profile = () => {
       <Routes>
         <Route
           index
-          element={<GridPostList posts={currentUser.posts} showUser={false} />}
+          element={<UserPosts userId={currentUser.$id} />}
         />
         {currentUser.$id === user.id && (
           <Route path="/liked-posts" element={<LikedPosts />} />
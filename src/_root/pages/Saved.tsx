@@ -1,18 +1,24 @@
-import { useGetCurrentUser } from "@/lib/react-query/queriesAndMutations"
-import { Models } from "appwrite";
+import { useGetSavedCollections, useGetSavedPosts } from "@/lib/react-query/queriesAndMutations"
 import Loader from "@/components/shared/Loader";
+import LoadMore from "@/components/shared/LoadMore";
+import QueryError from "@/components/shared/QueryError";
 import GridPostList from "@/components/shared/GridPostList";
+import SavedCollectionCard from "@/components/shared/SavedCollectionCard";
+import SavedCollectionForm from "@/components/shared/SavedCollectionForm";
+import { useUserContext } from "@/context/userContext";
+import { flattenPages } from "@/lib/utils";
 
 const Saved = () => {
-  const { data: currentUser } = useGetCurrentUser();
+  const { user } = useUserContext();
+  const { data, isError, error, refetch, fetchNextPage, hasNextPage } = useGetSavedPosts(user.id);
+  const {
+    data: collections,
+    isError: isCollectionsError,
+    error: collectionsError,
+    refetch: refetchCollections,
+  } = useGetSavedCollections(user.id);
 
-  const savePosts = currentUser?.save.map((savePost: Models.Document) => ({
-    ...savePost.post,
-    creator: {
-      imageUrl: currentUser.imageUrl,
-    },
-  }))
-  .reverse();
+  const savePosts = flattenPages(data);
 
   return (
     <div className="saved-container">
@@ -26,7 +32,33 @@ const Saved = () => {
         <h2 className="h3-bold md:h2-bold text-left w-full">Saved Posts</h2>
       </div>
 
-      {!currentUser ? (
+      <div className="flex flex-col gap-5 w-full max-w-5xl">
+        <div className="flex flex-col md:flex-row md:items-center gap-3">
+          <h3 className="body-bold md:h3-bold whitespace-nowrap md:mr-auto">Collections</h3>
+          <div className="w-full md:w-80">
+            <SavedCollectionForm userId={user.id} />
+          </div>
+        </div>
+        {isCollectionsError && !collections ? (
+          <QueryError error={collectionsError} onRetry={refetchCollections} />
+        ) : collections && collections.length > 0 ? (
+          <ul className="saved-collections_grid">
+            {collections.map((collection) => (
+              <SavedCollectionCard key={collection.$id} collection={collection} />
+            ))}
+          </ul>
+        ) : (
+          <p className="small-regular text-light-4">
+            Hold the save icon of a post to put it in a collection
+          </p>
+        )}
+      </div>
+
+      <h3 className="body-bold md:h3-bold w-full max-w-5xl">All saved</h3>
+
+      {isError && !data ? (
+        <QueryError error={error} onRetry={refetch} />
+      ) : !data ? (
         <Loader />
       ) : (
         <ul className="w-full flex justify-center max-w-5xl gap-9">
@@ -37,6 +69,7 @@ const Saved = () => {
           )}
         </ul>
       )}
+      <LoadMore hasNextPage={hasNextPage} fetchNextPage={fetchNextPage} />
     </div>
   );
 };
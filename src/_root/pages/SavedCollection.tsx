@@ -0,0 +1,113 @@
+import { useNavigate, useParams } from "react-router-dom";
+import GridPostList from "@/components/shared/GridPostList";
+import Loader from "@/components/shared/Loader";
+import LoadMore from "@/components/shared/LoadMore";
+import QueryError from "@/components/shared/QueryError";
+import ResponsiveImage from "@/components/shared/ResponsiveImage";
+import { Button } from "@/components/ui/button";
+import { useUserContext } from "@/context/userContext";
+import {
+  useDeleteSavedCollection,
+  useGetSavedCollectionById,
+  useGetSavedCollections,
+  useGetSavedPosts,
+} from "@/lib/react-query/queriesAndMutations";
+import { flattenPages } from "@/lib/utils";
+
+const SavedCollection = () => {
+  const { collectionId } = useParams();
+  const navigate = useNavigate();
+  const { user } = useUserContext();
+
+  const { data: collection, isError, error, refetch } = useGetSavedCollectionById(collectionId);
+  const { data: collections } = useGetSavedCollections(user.id);
+  const {
+    data,
+    isError: isPostsError,
+    error: postsError,
+    refetch: refetchPosts,
+    fetchNextPage,
+    hasNextPage,
+  } = useGetSavedPosts(user.id, collectionId);
+  const { mutate: deleteSavedCollection, isPending: isDeleting } = useDeleteSavedCollection();
+
+  const posts = flattenPages(data);
+  const summary = collections?.find((savedCollection) => savedCollection.$id === collectionId);
+  const postsCount = data?.pages[0]?.total ?? 0;
+
+  const handleDeleteCollection = () => {
+    if (!collectionId) return;
+    deleteSavedCollection(collectionId, { onSuccess: () => navigate("/saved") });
+  };
+
+  if (isError) {
+    return (
+      <div className="saved-container">
+        <QueryError
+          error={error}
+          onRetry={refetch}
+          messages={{ "not-found": "This collection doesn't exist anymore" }} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="saved-container">
+      <div className="flex flex-col gap-6 w-full max-w-5xl">
+        <Button
+          onClick={() => navigate("/saved")}
+          variant="ghost"
+          className="shad-button_ghost self-start">
+          <img src="/assets/icons/back.svg" alt="back" width={24} height={24} />
+          <p className="small-medium lg:base-medium">Saved</p>
+        </Button>
+
+        {summary?.cover && (
+          <ResponsiveImage
+            src={summary.cover.imageUrl}
+            imageId={summary.cover.imageId}
+            blurhash={summary.cover.imageBlurhashes[0]}
+            sizes="(min-width: 1024px) 1024px, 100vw"
+            alt="cover"
+            className="saved-collection_banner" />
+        )}
+
+        <div className="flex-between gap-4">
+          <div className="flex flex-col gap-2">
+            <h2 className="h3-bold md:h2-bold text-left">{collection?.name}</h2>
+            {data && (
+              <p className="small-medium text-light-3">
+                {postsCount} {postsCount === 1 ? "post" : "posts"}
+              </p>
+            )}
+          </div>
+          <Button
+            onClick={handleDeleteCollection}
+            disabled={isDeleting}
+            variant="ghost"
+            className="shad-button_ghost">
+            <img src="/assets/icons/delete.svg" alt="delete" width={20} height={20} />
+            <p className="small-medium text-light-2">Delete collection</p>
+          </Button>
+        </div>
+      </div>
+
+      {isPostsError && !data ? (
+        <QueryError error={postsError} onRetry={refetchPosts} />
+      ) : !data ? (
+        <Loader />
+      ) : (
+        <div className="flex justify-center w-full max-w-5xl">
+          {posts.length === 0 ? (
+            <p className="text-light-4">Hold the save icon of a post to add it here</p>
+          ) : (
+            <GridPostList posts={posts} />
+          )}
+        </div>
+      )}
+      <LoadMore hasNextPage={hasNextPage} fetchNextPage={fetchNextPage} />
+    </div>
+  );
+};
+
+export default SavedCollection;
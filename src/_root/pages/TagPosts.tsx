@@ -0,0 +1,65 @@
+import { Link, useParams } from "react-router-dom";
+import GridPostList from "@/components/shared/GridPostList";
+import Loader from "@/components/shared/Loader";
+import LoadMore from "@/components/shared/LoadMore";
+import QueryError from "@/components/shared/QueryError";
+import { useGetRelatedTags, useGetTagPosts } from "@/lib/react-query/queriesAndMutations";
+import { flattenPages, getTagPath } from "@/lib/utils";
+
+const TagPosts = () => {
+  const { tag: tagParam } = useParams();
+  // Tags are saved in lowercase, so /tags/Running finds the same posts as /tags/running
+  const tag = tagParam?.toLowerCase();
+
+  const { data, isError, error, refetch, fetchNextPage, hasNextPage } = useGetTagPosts(tag);
+  const { data: relatedTags } = useGetRelatedTags(tag);
+
+  const posts = flattenPages(data);
+  const postsCount = data?.pages[0]?.total ?? 0;
+
+  return (
+    <div className="saved-container">
+      <div className="flex flex-col gap-2 w-full max-w-5xl">
+        <h2 className="h3-bold md:h2-bold text-left w-full">#{tag}</h2>
+        {data && (
+          <p className="small-medium text-light-3">
+            {postsCount} {postsCount === 1 ? "post" : "posts"}
+          </p>
+        )}
+      </div>
+
+      {relatedTags && relatedTags.length > 0 && (
+        <div className="flex flex-col gap-3 w-full max-w-5xl">
+          <p className="small-semibold text-light-2">Related tags</p>
+          <ul className="flex gap-2 overflow-x-auto custom-scrollbar pb-2">
+            {relatedTags.map((related) => (
+              <li key={related.tag}>
+                <Link to={getTagPath(related.tag)} className="tag_chip">
+                  #{related.tag}
+                  <span className="text-light-4">{related.postsCount}</span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {isError && !data ? (
+        <QueryError error={error} onRetry={refetch} />
+      ) : !data ? (
+        <Loader />
+      ) : (
+        <div className="flex justify-center w-full max-w-5xl">
+          {posts.length === 0 ? (
+            <p className="text-light-4">No posts tagged #{tag}</p>
+          ) : (
+            <GridPostList posts={posts} />
+          )}
+        </div>
+      )}
+      <LoadMore hasNextPage={hasNextPage} fetchNextPage={fetchNextPage} />
+    </div>
+  );
+};
+
+export default TagPosts;
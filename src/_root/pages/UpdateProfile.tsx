@@ -3,11 +3,13 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 
 import { useToast } from "@/components/ui/use-toast";
-import { useUserContext } from "@/context/AuthContext";
+import { useUserContext } from "@/context/userContext";
 import { useNavigate, useParams } from "react-router-dom";
 import { ProfileValidation } from "@/lib/validation";
+import { getErrorMessage } from "@/lib/errors";
 import { useGetUserById, useUpdateUser } from "@/lib/react-query/queriesAndMutations";
 import Loader from "@/components/shared/Loader";
+import QueryError from "@/components/shared/QueryError";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import ProfileUploader from "@/components/shared/ProfileUploader";
@@ -30,10 +32,17 @@ const UpdateProfile = () => {
     },
   });
 
-  const { data: currentUser } = useGetUserById(id || "");
+  const { data: currentUser, isError, error, refetch } = useGetUserById(id || "");
   const { mutateAsync: updateUser, isPending: isPendingUpdate } =
     useUpdateUser();
 
+  if (isError)
+    return (
+      <div className="flex-center w-full h-full">
+        <QueryError error={error} onRetry={refetch} />
+      </div>
+    );
+
   if (!currentUser)
     return (
       <div className="flex-center w-full h-full">
@@ -42,26 +51,32 @@ const UpdateProfile = () => {
     );
 
   const handleUpdate = async (value: z.infer<typeof ProfileValidation>) => {
-    const updatedUser = await updateUser({
-      userId: currentUser.$id,
-      name: value.name,
-      bio: value.bio,
-      file: value.file,
-      imageUrl: currentUser.imageUrl,
-      imageId: currentUser.imageId,
-    });
-
-    if (!updatedUser) {
-      toast({
-        title: `Update user failed. Please try again.`,
+    let updatedUser;
+    try {
+      updatedUser = await updateUser({
+        userId: currentUser.$id,
+        name: value.name,
+        bio: value.bio,
+        file: value.file,
+        imageUrl: currentUser.imageUrl,
+        imageId: currentUser.imageId,
+      });
+    }
+    catch (error) {
+      return toast({
+        title: getErrorMessage(error, {
+          validation: "The profile picture or details were rejected. Check the file type and size.",
+          permission: "You can only edit your own profile.",
+          unknown: "Update user failed. Please try again.",
+        }),
       });
     }
 
     setUser({
       ...user,
-      name: updatedUser?.name,
-      bio: updatedUser?.bio,
-      imageUrl: updatedUser?.imageUrl,
+      name: updatedUser.name,
+      bio: updatedUser.bio ?? "",
+      imageUrl: updatedUser.imageUrl,
     });
     return navigate(`/profile/${id}`);
   };
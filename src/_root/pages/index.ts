@@ -7,4 +7,7 @@ export { default as CreatePost } from './CreatePost';
 export { default as EditPost } from './EditPost';
 export { default as PostDetails } from './PostDetails';
 export { default as LikedPosts } from './LikedPosts';
-export { default as Saved } from './Saved';
\ No newline at end of file
+export { default as Saved } from './Saved';
+export { default as SavedCollection } from './SavedCollection';
+export { default as Notifications } from './Notifications';
+export { default as TagPosts } from './TagPosts';
\ No newline at end of file
@@ -0,0 +1,121 @@
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form"
+import { z } from "zod"
+import { Button } from "@/components/ui/button"
+import {
+    Form,
+    FormControl,
+    FormField,
+    FormItem,
+    FormMessage,
+} from "@/components/ui/form"
+import { Textarea } from "../ui/textarea"
+import { CommentValidation } from "@/lib/validation"
+import { IComment } from "@/types"
+import { useCreateComment, useEditComment } from "@/lib/react-query/queriesAndMutations"
+import { useUserContext } from "@/context/userContext"
+import { useToast } from "../ui/use-toast"
+import { getErrorMessage } from "@/lib/errors"
+import Loader from "../shared/Loader"
+
+type CommentFormProps = {
+    postId: string;
+    parentId?: string;
+    comment?: IComment;
+    action: "Create" | "Update";
+    onDone?: () => void;
+};
+
+const CommentForm = ({ postId, parentId, comment, action, onDone } : CommentFormProps) => {
+
+    const { user } = useUserContext();
+    const { toast } = useToast();
+
+    const form = useForm<z.infer<typeof CommentValidation>>({
+        resolver: zodResolver(CommentValidation),
+        defaultValues: {
+            content: comment ? comment.content : "",
+        },
+    });
+
+    const { mutateAsync: createComment, isPending: isPendingCreate } = useCreateComment();
+    const { mutateAsync: editComment, isPending: isPendingEdit } = useEditComment();
+
+    const handleSubmit = async (values: z.infer<typeof CommentValidation>) => {
+        try {
+            if (comment && action === "Update") {
+                await editComment({
+                    commentId: comment.$id,
+                    content: values.content
+                });
+                return onDone?.();
+            }
+
+            await createComment({
+                ...values,
+                postId,
+                parentId,
+                userId: user.id
+            });
+            form.reset();
+            onDone?.();
+        }
+        catch (error) {
+            toast({
+                title: getErrorMessage(error, {
+                    "not-found": "This post or comment no longer exists.",
+                    unknown: action === "Update"
+                        ? "Editing comment failed. Please try again."
+                        : "Posting comment failed. Please try again.",
+                })
+            });
+        }
+    }
+
+    const isPending = isPendingCreate || isPendingEdit;
+
+    return (
+        <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="flex flex-col gap-3 w-full">
+                <FormField
+                    control={form.control}
+                    name="content"
+                    render={({ field }) => (
+                        <FormItem>
+                            <FormControl>
+                                <Textarea
+                                    placeholder={parentId ? "Write a reply..." : "Write a comment..."}
+                                    className="shad-textarea !h-20 custom-scrollbar"
+                                    {...field}
+                                />
+                            </FormControl>
+                            <FormMessage className="shad-form_message" />
+                        </FormItem>
+                    )}
+                />
+                <div className="flex gap-4 items-center justify-end">
+                    {onDone && (
+                        <Button
+                            type="button"
+                            size="sm"
+                            className="bg-dark-4 hover:bg-dark-4 text-light-1"
+                            onClick={onDone}
+                            >
+                                Cancel
+                        </Button>
+                    )}
+                    <Button
+                        type="submit"
+                        size="sm"
+                        className="shad-button_primary whitespace-nowrap"
+                        disabled={isPending}
+                        >
+                            {isPending && <Loader />}
+                            {action === "Update" ? "Save" : parentId ? "Reply" : "Comment"}
+                    </Button>
+                </div>
+            </form>
+        </Form>
+    )
+}
+export default CommentForm
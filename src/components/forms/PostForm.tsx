@@ -13,19 +13,36 @@ import {
 import { Input } from "@/components/ui/input"
 import { Textarea } from "../ui/textarea"
 import FileUploader from "../shared/FileUploader"
+import ImageEditor from "../shared/ImageEditor"
 import { PostValidation } from "@/lib/validation"
-import { Models } from "appwrite"
+import { IPhotoLocation, IPost, IPostMedia, IUploadProgress } from "@/types"
 import { useCreatePost, useUpdatePost } from "@/lib/react-query/queriesAndMutations"
-import { useUserContext } from "@/context/AuthContext"
+import { useUserContext } from "@/context/userContext"
 import { useToast } from "../ui/use-toast"
+import { getErrorMessage } from "@/lib/errors"
 import { useNavigate } from "react-router-dom"
+import { useRef, useState } from "react"
+import { convertFileToUrl, getPostImages } from "@/lib/utils"
+import { formatPhotoLocation } from "@/lib/imageMetadata"
+import { ProcessedImage } from "@/lib/imageProcessing"
 import Loader from "../shared/Loader"
 
 type PostFormProps = {
-    post? : Models.Document;
+    post? : IPost;
     action: "Create" | "Update";
 };
 
+// The uploaded media of a post, in the shape the uploader edits
+const getPostMedia = (post?: IPost): IPostMedia => {
+    if (!post) return { images: [] };
+
+    const images = getPostImages(post);
+    if (post.mediaType === "video" && post.videoUrl && post.videoId) {
+        return { images: [], video: { url: post.videoUrl, videoId: post.videoId, poster: images[0] } };
+    }
+    return { images };
+};
+
 const PostForm = ({ post, action } : PostFormProps) => {
 
     const { user } = useUserContext();
@@ -36,44 +53,87 @@ const PostForm = ({ post, action } : PostFormProps) => {
         resolver: zodResolver(PostValidation),
         defaultValues: {
             caption: post ? post?.caption: "",
-            file: [],
-            location: post ? post.location : "",
+            media: getPostMedia(post),
+            location: post?.location ?? "",
             tags: post ? post.tags.join(",") : "",
         },
     });
 
+    // The image open in the editor, by its place in the uploader
+    const [editingIndex, setEditingIndex] = useState<number | null>(null);
+    const editingImage = editingIndex !== null ? form.getValues("media").images[editingIndex] : undefined;
+
+    // GPS position found in a dropped photo, offered as the location but never uploaded
+    const [photoLocation, setPhotoLocation] = useState<IPhotoLocation | null>(null);
+
+    // Progress of the media uploads while the post is saved, and the way to stop them
+    const [uploadProgress, setUploadProgress] = useState<IUploadProgress | null>(null);
+    const uploadControllerRef = useRef<AbortController | null>(null);
+
     const { mutateAsync: createPost, isPending: isPendingCreate } = useCreatePost();
     const { mutateAsync: updatePost, isPending: isPendingUpdate } = useUpdatePost();
 
 
-    const handleSubmit = async (values: z.infer<typeof PostValidation>) => {
-        
-        if (post && action === "Update") {
-            const updatedPost = await updatePost({
+    const handleSubmit = async ({ media: { images, video }, ...values }: z.infer<typeof PostValidation>) => {
+        const controller = new AbortController();
+        uploadControllerRef.current = controller;
+        const uploadOptions = { signal: controller.signal, onProgress: setUploadProgress };
+
+        try {
+            if (post && action === "Update") {
+                await updatePost({
+                    ...values,
+                    ...uploadOptions,
+                    postId: post.$id,
+                    previousCaption: post.caption,
+                    images,
+                    imageIds: post.imageIds,
+                    video,
+                    videoId: post.videoId,
+                });
+                return navigate(`/posts/${post.$id}`);
+            }
+
+            await createPost({
                 ...values,
-                postId: post.$id,
-                imageId: post?.imageid,
-                imageUrl: post?.imagaUrl
+                ...uploadOptions,
+                file: (video ? [video.poster] : images).flatMap((image) => (image.file ? [image.file] : [])),
+                video: video?.file,
+                userId: user.id
             });
-            if (!updatedPost) {
-                toast({
-                    title: `${action} post failed. Please try again.`
-                })
-            }
-            return navigate(`/posts/${post.$id}`);
+            navigate("/")
         }
-        
-        const newPost = await createPost({
-            ...values,
-            userId: user.id
-        });
-        if (!newPost) {
+        catch (error) {
             toast({
-                title: `${action} post failed. Please try again.`,
+                title: getErrorMessage(error, {
+                    validation: "The media or post details were rejected. Check the file type and size.",
+                    permission: "You can only edit your own posts.",
+                    "not-found": "This post no longer exists.",
+                    cancelled: "Upload cancelled. Your post was not saved.",
+                    unknown: `${action} post failed. Please try again.`,
+                })
             });
         }
-        navigate("/")
-
+        finally {
+            uploadControllerRef.current = null;
+            setUploadProgress(null);
+        }
+    }
+    
+    // An edited image is a new file, so an uploaded original gets replaced on save and its placeholder
+    // is computed again from the new file when it uploads
+    const handleEditSave = ({ file, originalSize }: ProcessedImage) => {
+        const { images } = form.getValues("media");
+        form.setValue(
+            "media",
+            {
+                images: images.map((image, index) => (index === editingIndex
+                    ? { file, url: convertFileToUrl(file), originalSize: image.originalSize ?? originalSize }
+                    : image))
+            },
+            { shouldValidate: true }
+        );
+        setEditingIndex(null);
     }
     
     return (
@@ -98,14 +158,18 @@ const PostForm = ({ post, action } : PostFormProps) => {
 
                 <FormField
                     control={form.control}
-                    name="file"
+                    name="media"
                     render={({ field }) => (
                         <FormItem>
-                            <FormLabel className="shad-form_label">Add Photos</FormLabel>
+                            <FormLabel className="shad-form_label">Add Photos or a Video</FormLabel>
                             <FormControl>
                             <FileUploader
                                 fieldChange={field.onChange}
-                                mediaUrl={post?.imageUrl}
+                                media={field.value}
+                                onEditImage={setEditingIndex}
+                                onPhotoLocation={setPhotoLocation}
+                                uploadProgress={uploadProgress}
+                                onCancelUpload={() => uploadControllerRef.current?.abort()}
                             />
 
                             </FormControl>
@@ -123,6 +187,18 @@ const PostForm = ({ post, action } : PostFormProps) => {
                             <FormControl>
                                 <Input type="text" className="shad-input" {...field} />
                             </FormControl>
+                            {photoLocation && (
+                                <button
+                                    type="button"
+                                    className="flex items-center gap-2 small-medium text-primary-500"
+                                    onClick={() => {
+                                        field.onChange(formatPhotoLocation(photoLocation));
+                                        setPhotoLocation(null);
+                                    }}>
+                                    <img src="/assets/icons/location.svg" alt="location" width={16} height={16} />
+                                    Use where the photo was taken ({formatPhotoLocation(photoLocation)})
+                                </button>
+                            )}
                             <FormMessage className="shad-form_message" />
                         </FormItem>
                     )}
@@ -163,6 +239,15 @@ const PostForm = ({ post, action } : PostFormProps) => {
                     </Button>
                 </div>
             </form>
+            {editingImage && (
+                <ImageEditor
+                    key={editingImage.url}
+                    imageUrl={editingImage.url}
+                    fileName={editingImage.file?.name ?? "photo.jpg"}
+                    onSave={handleEditSave}
+                    onCancel={() => setEditingIndex(null)}
+                />
+            )}
         </Form>
     )
 }
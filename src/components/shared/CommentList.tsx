@@ -0,0 +1,176 @@
+import { useUserContext } from "@/context/userContext";
+import { useDeleteComment, useGetComments } from "@/lib/react-query/queriesAndMutations";
+import { multiFormatDateString } from "@/lib/utils";
+import { IComment, IPost } from "@/types";
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import CommentForm from "../forms/CommentForm";
+import Loader from "./Loader";
+import QueryError from "./QueryError";
+
+type CommentRepliesProps = {
+    post: IPost;
+    parentId: string;
+}
+
+const CommentReplies = ({ post, parentId }: CommentRepliesProps) => {
+    const { data: replies, isError, error, refetch, fetchNextPage, hasNextPage, isFetchingNextPage } =
+        useGetComments(post.$id, parentId);
+
+    if (isError && !replies) return <QueryError error={error} onRetry={refetch} />;
+    if (!replies) return <Loader />;
+
+    return (
+        <ul className="flex flex-col gap-4 w-full">
+            {replies.pages.map((page) =>
+                page?.documents.map((reply) => (
+                    <li key={reply.$id}>
+                        <CommentCard comment={reply} post={post} />
+                    </li>
+                ))
+            )}
+            {hasNextPage && (
+                <button
+                    type="button"
+                    className="subtle-semibold text-light-3 text-left"
+                    disabled={isFetchingNextPage}
+                    onClick={() => fetchNextPage()}>
+                    Load more replies
+                </button>
+            )}
+        </ul>
+    );
+}
+
+type CommentCardProps = {
+    comment: IComment;
+    post: IPost;
+}
+
+const CommentCard = ({ comment, post }: CommentCardProps) => {
+    const { user } = useUserContext();
+    const [isEditing, setIsEditing] = useState(false);
+    const [isReplying, setIsReplying] = useState(false);
+    const [showReplies, setShowReplies] = useState(false);
+
+    const { mutate: deleteComment, isPending: isDeleting } = useDeleteComment();
+
+    const isReply = !!comment.parentId;
+    const isAuthor = user.id === comment.creator?.$id;
+    const canDelete = isAuthor || user.id === post.creator.$id;
+
+    return (
+        <div className="flex gap-3 w-full">
+            <Link to={`/profile/${comment.creator?.$id}`} className="shrink-0">
+                <img
+                    src={comment.creator?.imageUrl || "/assets/icons/profile-placeholder.svg"}
+                    alt="creator"
+                    className="w-8 h-8 rounded-full" />
+            </Link>
+
+            <div className="flex flex-col gap-1 flex-1">
+                <div className="flex items-center gap-2">
+                    <p className="small-semibold text-light-1">{comment.creator?.name}</p>
+                    <p className="subtle-semibold text-light-3">
+                        {multiFormatDateString(comment.$createdAt)}
+                    </p>
+                </div>
+
+                {isEditing ? (
+                    <CommentForm
+                        postId={post.$id}
+                        comment={comment}
+                        action="Update"
+                        onDone={() => setIsEditing(false)} />
+                ) : (
+                    <p className="small-regular text-light-2 whitespace-pre-wrap">{comment.content}</p>
+                )}
+
+                <div className="flex gap-4 subtle-semibold text-light-3">
+                    {!isReply && (
+                        <button type="button" onClick={() => setIsReplying(!isReplying)}>
+                            Reply
+                        </button>
+                    )}
+                    {isAuthor && !isEditing && (
+                        <button type="button" onClick={() => setIsEditing(true)}>
+                            Edit
+                        </button>
+                    )}
+                    {canDelete && (
+                        <button
+                            type="button"
+                            disabled={isDeleting}
+                            onClick={() => deleteComment({ commentId: comment.$id, postId: post.$id })}>
+                            Delete
+                        </button>
+                    )}
+                    {!isReply && (
+                        <button type="button" onClick={() => setShowReplies(!showReplies)}>
+                            {showReplies ? "Hide replies" : "View replies"}
+                        </button>
+                    )}
+                </div>
+
+                {isReplying && (
+                    <CommentForm
+                        postId={post.$id}
+                        parentId={comment.$id}
+                        action="Create"
+                        onDone={() => {
+                            setIsReplying(false);
+                            setShowReplies(true);
+                        }} />
+                )}
+
+                {showReplies && <CommentReplies post={post} parentId={comment.$id} />}
+            </div>
+        </div>
+    );
+}
+
+type CommentListProps = {
+    post: IPost;
+}
+
+const CommentList = ({ post }: CommentListProps) => {
+    const { data: comments, isError, error, refetch, fetchNextPage, hasNextPage, isFetchingNextPage } =
+        useGetComments(post.$id);
+
+    const hasNoComments = comments?.pages.every((page) => !page || page.documents.length === 0);
+
+    return (
+        <div className="flex flex-col gap-5 w-full">
+            <CommentForm postId={post.$id} action="Create" />
+
+            {isError && !comments ? (
+                <QueryError error={error} onRetry={refetch} />
+            ) : !comments ? (
+                <Loader />
+            ) : hasNoComments ? (
+                <p className="small-regular text-light-4">No comments yet</p>
+            ) : (
+                <ul className="flex flex-col gap-5 w-full max-h-96 overflow-scroll custom-scrollbar">
+                    {comments.pages.map((page) =>
+                        page?.documents.map((comment) => (
+                            <li key={comment.$id}>
+                                <CommentCard comment={comment} post={post} />
+                            </li>
+                        ))
+                    )}
+                    {hasNextPage && (
+                        <button
+                            type="button"
+                            className="small-medium text-primary-500 text-left"
+                            disabled={isFetchingNextPage}
+                            onClick={() => fetchNextPage()}>
+                            Load more comments
+                        </button>
+                    )}
+                </ul>
+            )}
+        </div>
+    );
+}
+
+export default CommentList
@@ -0,0 +1,122 @@
+import { FormEvent, useEffect, useRef, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { DEFAULT_EXPLORE_FILTERS, EXPLORE_MEDIA_TYPES, EXPLORE_PERIODS } from "@/constants";
+import { parseTags } from "@/lib/utils";
+import { IExploreFilters } from "@/types";
+
+type ExploreFilterMenuProps = {
+  filters: IExploreFilters;
+  onChange: (filters: IExploreFilters) => void;
+};
+
+const countActiveFilters = ({ period, mediaType, tag }: IExploreFilters) =>
+  [period !== DEFAULT_EXPLORE_FILTERS.period, mediaType !== "all", !!tag].filter(Boolean).length;
+
+// The filter chip of Explore, opening a menu for the time window, media type and tag
+const ExploreFilterMenu = ({ filters, onChange }: ExploreFilterMenuProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [tagInput, setTagInput] = useState(filters.tag);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Closing when anything outside the menu is clicked
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const handleTagSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const [tag = ""] = parseTags(tagInput);
+    setTagInput(tag);
+    onChange({ ...filters, tag });
+  };
+
+  const activeCount = countActiveFilters(filters);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="flex-center gap-3 bg-dark-3 rounded-xl px-4 py-2">
+        <p className="small-medium md:base-medium text-light-2">
+          {activeCount > 0 ? `Filters (${activeCount})` : "All"}
+        </p>
+        <img
+          src="/assets/icons/filter.svg"
+          height={20}
+          width={20}
+          alt="filter" />
+      </button>
+
+      {isOpen && (
+        <div className="explore-filter_menu">
+          <div className="flex flex-col gap-2">
+            <p className="small-semibold text-light-2">Posted</p>
+            <div className="flex flex-wrap gap-2">
+              {EXPLORE_PERIODS.map((period) => (
+                <button
+                  key={period.value}
+                  type="button"
+                  onClick={() => onChange({ ...filters, period: period.value })}
+                  className={`explore-filter_chip ${filters.period === period.value && "!bg-primary-500"}`}>
+                  {period.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <p className="small-semibold text-light-2">Media</p>
+            <div className="flex flex-wrap gap-2">
+              {EXPLORE_MEDIA_TYPES.map((mediaType) => (
+                <button
+                  key={mediaType.value}
+                  type="button"
+                  onClick={() => onChange({ ...filters, mediaType: mediaType.value })}
+                  className={`explore-filter_chip ${filters.mediaType === mediaType.value && "!bg-primary-500"}`}>
+                  {mediaType.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <form onSubmit={handleTagSubmit} className="flex flex-col gap-2">
+            <p className="small-semibold text-light-2">Tag</p>
+            <div className="flex gap-2">
+              <Input
+                type="text"
+                placeholder="#tag"
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                className="shad-input" />
+              <button type="submit" className="explore-filter_chip">
+                Apply
+              </button>
+            </div>
+          </form>
+
+          {activeCount > 0 && (
+            <button
+              type="button"
+              onClick={() => {
+                setTagInput("");
+                onChange(DEFAULT_EXPLORE_FILTERS);
+              }}
+              className="small-medium text-primary-500 text-left">
+              Reset filters
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExploreFilterMenu;
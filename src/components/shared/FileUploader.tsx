@@ -1,48 +1,284 @@
-import { useCallback, useState } from 'react'
-import { FileWithPath, useDropzone } from 'react-dropzone'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { FileRejection, FileWithPath, useDropzone } from 'react-dropzone'
 import { Button } from '../ui/button';
-import { convertFileToUrl } from '@/lib/utils';
+import Loader from './Loader';
+import { captureVideoPoster, convertFileToUrl, formatBytes } from '@/lib/utils';
+import { preprocessImage } from '@/lib/imageProcessing';
+import { readPhotoLocation } from '@/lib/imageMetadata';
+import { toAppError } from '@/lib/errors';
+import { IPhotoLocation, IPostMedia, IUploadProgress } from '@/types';
+import { MAX_POST_IMAGES, MAX_VIDEO_SIZE } from '@/constants';
 
 type FileUploaderProps = {
-    fieldChange: (files: File[]) => void;
-    mediaUrl: string;
+    fieldChange: (media: IPostMedia) => void;
+    media: IPostMedia;
+    onEditImage?: (index: number) => void;
+    // Called with the first GPS position found in dropped photos, before it is stripped from them
+    onPhotoLocation?: (location: IPhotoLocation) => void;
+    // Set while the media is being uploaded
+    uploadProgress?: IUploadProgress | null;
+    onCancelUpload?: () => void;
 }
 
+const MAX_VIDEO_SIZE_MB = MAX_VIDEO_SIZE / 1024 / 1024;
 
-const FileUploader = ({ fieldChange, mediaUrl } : FileUploaderProps) => {
-    
-    const [fileUrl, setFileUrl] = useState<string>(mediaUrl);
-    const [file, setFile] = useState<File[]>([]);
+const isVideo = (file: File) => file.type.startsWith("video/");
 
-    const onDrop = useCallback(( acceptedFiles : FileWithPath[]) => {
-        setFile(acceptedFiles);
-        fieldChange(acceptedFiles);
-        setFileUrl(convertFileToUrl(acceptedFiles[0]))
-    }, [file])
+// Images have no size limit of their own, clips are checked here before they are uploaded
+const validateFile = (file: File) =>
+    isVideo(file) && file.size > MAX_VIDEO_SIZE
+        ? { code: "file-too-large", message: `Videos must be under ${MAX_VIDEO_SIZE_MB} MB.` }
+        : null;
 
-    const { getRootProps, getInputProps } = useDropzone({
+// Previews of dropped files, as opposed to media that was already uploaded
+const getPreviewUrls = ({ images, video }: IPostMedia) =>
+    (video ? [video, video.poster] : images)
+        .filter((item) => item.file)
+        .map((item) => item.url);
+
+const FileUploader = ({ fieldChange, media, onEditImage, onPhotoLocation, uploadProgress, onCancelUpload } : FileUploaderProps) => {
+
+    const { images, video } = media;
+    const [notice, setNotice] = useState("");
+    // What the uploader is busy with, shown in place of the previews
+    const [progressLabel, setProgressLabel] = useState("");
+
+    // A preview is let go once its file is removed or replaced, and the rest when the form closes
+    const previewUrlsRef = useRef<string[]>([]);
+
+    useEffect(() => {
+        const previewUrls = getPreviewUrls(media);
+        previewUrlsRef.current
+            .filter((url) => !previewUrls.includes(url))
+            .forEach((url) => URL.revokeObjectURL(url));
+        previewUrlsRef.current = previewUrls;
+    }, [media]);
+
+    useEffect(() => {
+        const previewUrls = previewUrlsRef;
+        return () => previewUrls.current.forEach((url) => URL.revokeObjectURL(url));
+    }, []);
+
+    const savedBytes = images.reduce(
+        (total, image) => total + (image.file && image.originalSize ? image.originalSize - image.file.size : 0),
+        0
+    );
+
+    const addVideo = useCallback(async (file: File) => {
+        setProgressLabel("Preparing your video...");
+        try {
+            const { file: poster } = await preprocessImage(await captureVideoPoster(file));
+            fieldChange({
+                images: [],
+                video: {
+                    file,
+                    url: convertFileToUrl(file),
+                    poster: { file: poster, url: convertFileToUrl(poster) },
+                },
+            });
+            setNotice("");
+        }
+        catch {
+            setNotice("That video could not be read. Try an MP4 or WebM file.");
+        }
+        finally {
+            setProgressLabel("");
+        }
+    }, [fieldChange])
+
+    const addImages = useCallback(async (files: File[]) => {
+        const freeSlots = MAX_POST_IMAGES - images.length;
+
+        if (onPhotoLocation) {
+            const locations = await Promise.all(files.slice(0, freeSlots).map(readPhotoLocation));
+            const location = locations.find((location) => location !== null);
+            if (location) onPhotoLocation(location);
+        }
+
+        setProgressLabel("Optimizing your photos...");
+        const results = await Promise.allSettled(files.slice(0, freeSlots).map(preprocessImage));
+        setProgressLabel("");
+
+        const newImages = results.flatMap((result) =>
+            result.status === "fulfilled"
+                ? [{ file: result.value.file, originalSize: result.value.originalSize, url: convertFileToUrl(result.value.file) }]
+                : []
+        );
+        const failure = results.find((result): result is PromiseRejectedResult => result.status === "rejected");
+
+        if (failure) setNotice(toAppError(failure.reason).message);
+        else setNotice(files.length > freeSlots ? `Only the first ${MAX_POST_IMAGES} photos were kept` : "");
+
+        fieldChange({ images: [...images, ...newImages] });
+    }, [images, fieldChange, onPhotoLocation])
+
+    const onDrop = useCallback(( acceptedFiles : FileWithPath[], fileRejections: FileRejection[]) => {
+        // A post is either a single clip or a set of photos
+        const videoFile = acceptedFiles.find(isVideo);
+        if (videoFile) {
+            addVideo(videoFile);
+            return;
+        }
+
+        if (fileRejections.length > 0) {
+            setNotice(fileRejections[0].errors[0].message);
+            return;
+        }
+
+        if (video) {
+            setNotice("Remove the video to add photos instead.");
+            return;
+        }
+
+        addImages(acceptedFiles);
+    }, [video, addVideo, addImages])
+
+    const { getRootProps, getInputProps, open } = useDropzone({
         onDrop,
+        noClick: true,
+        // The media can't change while it is being uploaded
+        disabled: !!uploadProgress,
+        validator: validateFile,
         accept : {
             "image/*" : [".png", ".jpeg", ".jpg", ".heic"],
+            "video/mp4" : [".mp4"],
+            "video/webm" : [".webm"],
         },
     });
 
+    const removeImage = (index: number) => {
+        setNotice("");
+        fieldChange({ images: images.filter((_, i) => i !== index) });
+    };
+
+    const moveImage = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= images.length) return;
+
+        const reordered = [...images];
+        [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+        fieldChange({ images: reordered });
+    };
+
+    const renderVideo = () => video && (
+        <>
+            <div className='relative w-full p-5 lg:p-10'>
+                <video
+                    src={video.url}
+                    poster={video.poster.url}
+                    muted
+                    controls
+                    playsInline
+                    className='file_uploader-img' />
+                <button
+                    type="button"
+                    onClick={() => fieldChange({ images: [] })}
+                    className='absolute top-8 right-8 lg:top-12 lg:right-12 rounded-full bg-dark-1/80 p-2'>
+                    <img src="/assets/icons/delete.svg" alt="remove" width={18} height={18} />
+                </button>
+            </div>
+            <p className='file_uploader-label'>{notice || "Drag another video here to replace this one"}</p>
+        </>
+    );
+
+    const renderUploadProgress = ({ uploaded, total }: IUploadProgress) => {
+        const percent = total > 0 ? Math.round((uploaded / total) * 100) : 0;
+
+        return (
+            <div className='file_uploader-progress'>
+                <div className='flex-between gap-4'>
+                    <p className='small-regular text-light-3'>
+                        Uploading {percent}% · {formatBytes(uploaded)} of {formatBytes(total)}
+                    </p>
+                    {onCancelUpload && (
+                        <Button type="button" onClick={onCancelUpload} className='shad-button_dark_4 h-8 px-3'>
+                            Cancel
+                        </Button>
+                    )}
+                </div>
+                <div className='h-1.5 w-full rounded-full bg-dark-4 overflow-hidden'>
+                    <div className='h-full rounded-full bg-primary-500 transition-[width]' style={{ width: `${percent}%` }} />
+                </div>
+            </div>
+        );
+    };
+
     return (
         <div
             {...getRootProps()}
-            className='flex flex-center flex-col bg-dark-3 rounded-xl cursor-pointer'
+            className='flex flex-center flex-col bg-dark-3 rounded-xl'
             >
             <input {...getInputProps()} className='cursor-pointer' />
-            {
-                fileUrl ? (
+            {progressLabel ? (
+                <div className="file_uploader-box">
+                    <Loader />
+                    <p className='text-light-4 small-regular mt-4'>{progressLabel}</p>
+                </div>
+            ) : video ? renderVideo() : (
+                images.length > 0 ? (
                     <>
-                        <div className='flex flex-1 justify-center w-full p-5 lg:p-10'>
-                            <img src={fileUrl} alt="image" className='file_uploader-img' />
-                        </div>
-                        <p className='file_uploader-label'>Click or drag photo to replace</p>
+                        <ul className='file_uploader-grid'>
+                            {images.map((image, index) => (
+                                <li key={`${image.url}${index}`} className='file_uploader-thumb'>
+                                    <img src={image.url} alt={`image ${index + 1}`} className='h-full w-full object-cover' />
+                                    {index === 0 && (
+                                        <p className='absolute top-2 left-2 rounded-full bg-dark-1/80 px-2 py-0.5 tiny-medium text-light-1'>
+                                            Cover
+                                        </p>
+                                    )}
+                                    <button
+                                        type="button"
+                                        onClick={() => removeImage(index)}
+                                        className='absolute top-2 right-2 rounded-full bg-dark-1/80 p-1'>
+                                        <img src="/assets/icons/delete.svg" alt="remove" width={14} height={14} />
+                                    </button>
+                                    <div className='absolute bottom-2 inset-x-2 flex-between'>
+                                        <button
+                                            type="button"
+                                            disabled={index === 0}
+                                            onClick={() => moveImage(index, -1)}
+                                            className='rounded-full bg-dark-1/80 p-1 disabled:invisible'>
+                                            <img src="/assets/icons/back.svg" alt="move left" width={14} height={14} />
+                                        </button>
+                                        {onEditImage && (
+                                            <button
+                                                type="button"
+                                                onClick={() => onEditImage(index)}
+                                                className='rounded-full bg-dark-1/80 p-1'>
+                                                <img src="/assets/icons/edit.svg" alt="edit" width={14} height={14} />
+                                            </button>
+                                        )}
+                                        <button
+                                            type="button"
+                                            disabled={index === images.length - 1}
+                                            onClick={() => moveImage(index, 1)}
+                                            className='rounded-full bg-dark-1/80 p-1 disabled:invisible'>
+                                            <img src="/assets/icons/back.svg" alt="move right" width={14} height={14} className='rotate-180' />
+                                        </button>
+                                    </div>
+                                </li>
+                            ))}
+                            {images.length < MAX_POST_IMAGES && (
+                                <li>
+                                    <button
+                                        type="button"
+                                        onClick={open}
+                                        className='file_uploader-thumb flex-center flex-col gap-2 w-full'>
+                                        <img src="/assets/icons/gallery-add.svg" alt="add" width={28} height={28} />
+                                        <p className='tiny-medium text-light-3'>Add photo</p>
+                                    </button>
+                                </li>
+                            )}
+                        </ul>
+                        <p className='file_uploader-label'>
+                            {notice || `${images.length} of ${MAX_POST_IMAGES} photos, drag more here or use the arrows to reorder`}
+                            {savedBytes > 0 && (
+                                <span className='block text-primary-500'>{formatBytes(savedBytes)} saved by optimizing</span>
+                            )}
+                        </p>
                     </>
                 ) : (
-                    <div className="file_uploader-box">
+                    <div className="file_uploader-box cursor-pointer" onClick={open}>
                         <img
                             src="/assets/icons/file-upload.svg"
                             width={96}
@@ -50,16 +286,20 @@ const FileUploader = ({ fieldChange, mediaUrl } : FileUploaderProps) => {
                             alt='file upload'
                         />
                         <h3 className='base-medium text-light-2 mb-2 mt-6'>
-                            Drag photo here
+                            Drag photos or a video here
                         </h3>
-                        <p className='text-light-4 small-regular mb-6'>SVG, PNG, JPG, HEIC</p>
+                        <p className='text-light-4 small-regular mb-6'>
+                            {notice || `PNG, JPG, HEIC, up to ${MAX_POST_IMAGES} photos, or an MP4 or WebM under ${MAX_VIDEO_SIZE_MB} MB`}
+                        </p>
                         <Button type="button" className='shad-button_dark_4'>
                             Select from computer
                         </Button>
                     </div>
-                )}
+                )
+            )}
+            {uploadProgress && renderUploadProgress(uploadProgress)}
         </div>
     )
 }
 
-export default FileUploader
\ No newline at end of file
+export default FileUploader
@@ -0,0 +1,48 @@
+import { useUserContext } from '@/context/userContext';
+import { useFollowUser, useGetFollowing, useUnfollowUser } from '@/lib/react-query/queriesAndMutations';
+import React from 'react';
+import { Button } from '../ui/button';
+
+type FollowButtonProps = {
+    userId: string;
+    size?: "default" | "sm";
+    className?: string;
+}
+
+const FollowButton = ({ userId, size = "default", className = "" }: FollowButtonProps) => {
+    const { user } = useUserContext();
+
+    const { data: following } = useGetFollowing(user.id);
+    const { mutate: followUser, isPending: isFollowing } = useFollowUser();
+    const { mutate: unfollowUser, isPending: isUnfollowing } = useUnfollowUser();
+
+    const followRecord = following?.documents.find(
+        (record) => record.followingId === userId
+    );
+
+    if (!user.id || user.id === userId) return null;
+
+    const handleFollow = (e: React.MouseEvent<HTMLButtonElement, MouseEvent>) => {
+        // The button can sit inside a profile link, so keep the click here
+        e.preventDefault();
+        e.stopPropagation();
+
+        if (followRecord) {
+            return unfollowUser(followRecord.$id);
+        }
+        followUser({ followerId: user.id, followingId: userId });
+    }
+
+    return (
+        <Button
+            type="button"
+            size={size}
+            className={`${followRecord ? "bg-dark-4 hover:bg-dark-4 text-light-1" : "shad-button_primary"} ${className}`}
+            disabled={isFollowing || isUnfollowing}
+            onClick={(e) => handleFollow(e)}>
+            {followRecord ? "Following" : "Follow"}
+        </Button>
+    )
+}
+
+export default FollowButton
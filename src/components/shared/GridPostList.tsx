@@ -1,10 +1,11 @@
-import { useUserContext } from '@/context/AuthContext';
-import { Models } from 'appwrite'
+import { useUserContext } from '@/context/userContext';
+import { IPostSummary } from '@/types';
 import { Link } from 'react-router-dom';
 import PostStats from './PostStats';
+import ResponsiveImage from './ResponsiveImage';
 
 type GridPostListProps = {
-    posts?: Models.Document[] | undefined;
+    posts?: IPostSummary[] | undefined;
     showUser?: boolean;
     showStats?: boolean;
 };
@@ -22,19 +23,36 @@ const GridPostList = ({
             {posts?.map((post) => (
                 <li key={post.$id} className='relative min-w-80 h-80'>
                     <Link to={`/posts/${post.$id}`} className='grid-post_link'>
-                        <img
+                        <ResponsiveImage
                             src={post.imageUrl}
+                            imageId={post.imageId}
+                            blurhash={post.imageBlurhashes[0]}
+                            sizes="(min-width: 640px) 400px, 100vw"
                             alt="post"
                             className='h-full w-full object-cover'/>
                     </Link>
+                    {post.mediaType === "video" ? (
+                        <div className='absolute inset-0 flex-center pointer-events-none'>
+                            <div className='rounded-full bg-dark-1/60 p-4'>
+                                <img src="/assets/icons/play.svg" alt="video" width={28} height={28} />
+                            </div>
+                        </div>
+                    ) : post.imageUrls.length > 1 && (
+                        <img
+                            src="/assets/icons/carousel.svg"
+                            alt="multiple images"
+                            width={22}
+                            height={22}
+                            className='absolute top-4 right-4' />
+                    )}
                     <div className='grid-post_user'>
                         {showUser && (
                             <div className='flex items-center justify-start gap-2 flex-1'>
                                 <img
-                                    src={post.creator.imageUrl || "/assets/icons/profile-placeholder.svg"}
+                                    src={post.creator?.imageUrl || "/assets/icons/profile-placeholder.svg"}
                                     alt="creator"
                                     className='w-8 h-8 rounded-full' />
-                                    <p className='line-clamp-1'>{post.creator.name}</p>
+                                    <p className='line-clamp-1'>{post.creator?.name}</p>
                             </div>
                         )}
                         {showStats && <PostStats post={post} userId={user.id} />}
@@ -0,0 +1,31 @@
+type HighlightedTextProps = {
+  text: string;
+  searchTerm: string;
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Marks every part of the text matching a word of the search term
+const HighlightedText = ({ text, searchTerm }: HighlightedTextProps) => {
+  const words = searchTerm.trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+  if (words.length === 0) return <>{text}</>;
+
+  // Splitting on a capturing group puts the matches at the odd indexes
+  const parts = text.split(new RegExp(`(${words.join("|")})`, "gi"));
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-transparent text-primary-500">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
@@ -0,0 +1,263 @@
+import React, { useEffect, useRef, useState } from "react";
+import { FlipHorizontal2, FlipVertical2, RotateCcw, RotateCw } from "lucide-react";
+import { Button } from "../ui/button";
+import Loader from "./Loader";
+import {
+  ASPECT_PRESETS,
+  AspectPreset,
+  CropArea,
+  CropHandle,
+  DEFAULT_ADJUSTMENTS,
+  FILTER_PRESETS,
+  ImageAdjustments,
+  drawTransformed,
+  exportEditedImage,
+  getAdjustmentsFilter,
+  getCenteredCrop,
+  loadImage,
+  moveCrop,
+  resizeCrop,
+} from "@/lib/imageEditing";
+import { ProcessedImage, preprocessImage } from "@/lib/imageProcessing";
+
+type ImageEditorProps = {
+  imageUrl: string;
+  fileName: string;
+  onSave: (image: ProcessedImage) => void;
+  onCancel: () => void;
+};
+
+type Drag = {
+  handle: CropHandle | "move";
+  startX: number;
+  startY: number;
+  startCrop: CropArea;
+};
+
+const PREVIEW_SIZE = 1080;
+
+const ADJUSTMENT_SLIDERS: { key: keyof ImageAdjustments; label: string; max: number }[] = [
+  { key: "brightness", label: "Brightness", max: 2 },
+  { key: "contrast", label: "Contrast", max: 2 },
+  { key: "saturation", label: "Saturation", max: 2 },
+];
+
+const CROP_HANDLES: { handle: CropHandle; className: string }[] = [
+  { handle: "nw", className: "-top-1.5 -left-1.5 cursor-nwse-resize" },
+  { handle: "ne", className: "-top-1.5 -right-1.5 cursor-nesw-resize" },
+  { handle: "sw", className: "-bottom-1.5 -left-1.5 cursor-nesw-resize" },
+  { handle: "se", className: "-bottom-1.5 -right-1.5 cursor-nwse-resize" },
+];
+
+// Crops, turns and adjusts a single image, handing back the result as a new file
+const ImageEditor = ({ imageUrl, fileName, onSave, onCancel }: ImageEditorProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [rotation, setRotation] = useState(0);
+  const [flipX, setFlipX] = useState(false);
+  const [flipY, setFlipY] = useState(false);
+  const [aspect, setAspect] = useState<AspectPreset>("free");
+  const [crop, setCrop] = useState<CropArea>(getCenteredCrop(1, 1));
+  const [adjustments, setAdjustments] = useState<ImageAdjustments>(DEFAULT_ADJUSTMENTS);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState("");
+
+  const ratio = ASPECT_PRESETS.find((preset) => preset.value === aspect)?.ratio;
+  const isSideways = rotation % 2 === 1;
+  const imageSize = image
+    ? {
+        width: isSideways ? image.naturalHeight : image.naturalWidth,
+        height: isSideways ? image.naturalWidth : image.naturalHeight,
+      }
+    : { width: 1, height: 1 };
+
+  useEffect(() => {
+    let isCurrent = true;
+
+    loadImage(imageUrl)
+      .then((loaded) => isCurrent && setImage(loaded))
+      .catch(() => isCurrent && setError("This image could not be opened for editing."));
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [imageUrl]);
+
+  // Redraws the turned preview, leaving colour adjustments to a CSS filter
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!image || !canvas) return;
+
+    const turned = drawTransformed(image, { rotation, flipX, flipY }, PREVIEW_SIZE);
+    canvas.width = turned.width;
+    canvas.height = turned.height;
+    canvas.getContext("2d")?.drawImage(turned, 0, 0);
+  }, [image, rotation, flipX, flipY]);
+
+  // A new shape or orientation invalidates the old crop
+  useEffect(() => {
+    setCrop(getCenteredCrop(imageSize.width, imageSize.height, ratio));
+  }, [imageSize.width, imageSize.height, ratio]);
+
+  const handlePointerDown = (e: React.PointerEvent, handle: Drag["handle"]) => {
+    e.stopPropagation();
+    frameRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = { handle, startX: e.clientX, startY: e.clientY, startCrop: crop };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const frame = frameRef.current;
+    if (!drag || !frame) return;
+
+    const { width, height } = frame.getBoundingClientRect();
+    const dx = (e.clientX - drag.startX) / width;
+    const dy = (e.clientY - drag.startY) / height;
+
+    setCrop(
+      drag.handle === "move"
+        ? moveCrop(drag.startCrop, dx, dy)
+        : resizeCrop(drag.startCrop, drag.handle, dx, dy, imageSize, ratio)
+    );
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    frameRef.current?.releasePointerCapture(e.pointerId);
+    dragRef.current = null;
+  };
+
+  const handleSave = async () => {
+    setIsExporting(true);
+    try {
+      // The full resolution export is downscaled and re-encoded like any dropped photo
+      const file = await exportEditedImage(imageUrl, { rotation, flipX, flipY, crop, adjustments }, fileName);
+      onSave(await preprocessImage(file));
+    }
+    catch {
+      setError("The edited image could not be saved. Try again or upload it without edits.");
+    }
+    finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="image_editor">
+      <div className="image_editor-container">
+        <div className="flex-between w-full">
+          <h3 className="h3-bold">Edit Photo</h3>
+          <div className="flex gap-4">
+            <Button type="button" className="shad-button_dark_4" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              className="shad-button_primary"
+              disabled={!image || isExporting}
+              onClick={handleSave}>
+              {isExporting && <Loader />}
+              Done
+            </Button>
+          </div>
+        </div>
+
+        {error && <p className="small-medium text-red">{error}</p>}
+
+        <div className="image_editor-stage">
+          {image ? (
+            <div
+              ref={frameRef}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              className="relative overflow-hidden touch-none select-none">
+              <canvas
+                ref={canvasRef}
+                style={{ filter: getAdjustmentsFilter(adjustments) }}
+                className="block max-h-[55vh] max-w-full"
+              />
+              <div
+                onPointerDown={(e) => handlePointerDown(e, "move")}
+                className="image_editor-crop"
+                style={{
+                  left: `${crop.x * 100}%`,
+                  top: `${crop.y * 100}%`,
+                  width: `${crop.width * 100}%`,
+                  height: `${crop.height * 100}%`,
+                }}>
+                {CROP_HANDLES.map(({ handle, className }) => (
+                  <span
+                    key={handle}
+                    onPointerDown={(e) => handlePointerDown(e, handle)}
+                    className={`image_editor-handle ${className}`}
+                  />
+                ))}
+              </div>
+            </div>
+          ) : (
+            !error && <Loader />
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {ASPECT_PRESETS.map((preset) => (
+            <button
+              key={preset.value}
+              type="button"
+              onClick={() => setAspect(preset.value)}
+              className={`image_editor-chip ${aspect === preset.value && "!bg-primary-500"}`}>
+              {preset.label}
+            </button>
+          ))}
+          <div className="flex gap-2 ml-auto">
+            <button type="button" aria-label="Rotate left" className="image_editor-chip" onClick={() => setRotation((rotation + 3) % 4)}>
+              <RotateCcw size={18} />
+            </button>
+            <button type="button" aria-label="Rotate right" className="image_editor-chip" onClick={() => setRotation((rotation + 1) % 4)}>
+              <RotateCw size={18} />
+            </button>
+            <button type="button" aria-label="Flip horizontally" className="image_editor-chip" onClick={() => setFlipX(!flipX)}>
+              <FlipHorizontal2 size={18} />
+            </button>
+            <button type="button" aria-label="Flip vertically" className="image_editor-chip" onClick={() => setFlipY(!flipY)}>
+              <FlipVertical2 size={18} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {FILTER_PRESETS.map((preset) => (
+            <button
+              key={preset.name}
+              type="button"
+              onClick={() => setAdjustments(preset.adjustments)}
+              className={`image_editor-chip ${preset.adjustments === adjustments && "!bg-primary-500"}`}>
+              {preset.name}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-3">
+          {ADJUSTMENT_SLIDERS.map(({ key, label, max }) => (
+            <label key={key} className="flex flex-col gap-1 small-medium text-light-2">
+              {label}
+              <input
+                type="range"
+                min={0}
+                max={max}
+                step={0.05}
+                value={adjustments[key]}
+                onChange={(e) => setAdjustments({ ...adjustments, [key]: Number(e.target.value) })}
+                className="accent-primary-500"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageEditor;
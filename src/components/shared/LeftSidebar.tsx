@@ -1,7 +1,7 @@
 // import { useEffect } from "react";
 import { Link, NavLink, useLocation, useNavigate } from "react-router-dom";
 import { Button } from "../ui/button";
-import { INITIAL_USER, useUserContext } from "@/context/AuthContext";
+import { INITIAL_USER, useUserContext } from "@/context/userContext";
 import { useSignOutAccount } from "@/lib/react-query/queriesAndMutations";
 import { sidebarLinks } from "@/constants";
 import { INavLink } from "@/types";
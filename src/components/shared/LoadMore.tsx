@@ -0,0 +1,30 @@
+import { useEffect } from "react";
+import { useInView } from "react-intersection-observer";
+import Loader from "./Loader";
+
+type LoadMoreProps = {
+  hasNextPage: boolean;
+  fetchNextPage: () => void;
+  className?: string;
+};
+
+// Fetches the next page of an infinite list once it scrolls into view
+const LoadMore = ({ hasNextPage, fetchNextPage, className = "mt-10" }: LoadMoreProps) => {
+  const { ref, inView } = useInView();
+
+  useEffect(() => {
+    if (inView && hasNextPage) {
+      fetchNextPage();
+    }
+  }, [inView, hasNextPage, fetchNextPage]);
+
+  if (!hasNextPage) return null;
+
+  return (
+    <div ref={ref} className={`w-full ${className}`}>
+      <Loader />
+    </div>
+  );
+};
+
+export default LoadMore;
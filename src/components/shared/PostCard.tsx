@@ -1,11 +1,14 @@
-import { useUserContext } from "@/context/AuthContext";
-import { multiFormatDateString } from "@/lib/utils";
-import { Models } from "appwrite"
+import { useUserContext } from "@/context/userContext";
+import { getPostImages, multiFormatDateString } from "@/lib/utils";
+import { IPost } from "@/types";
 import { Link } from "react-router-dom";
 import PostStats from "./PostStats";
+import PostCarousel from "./PostCarousel";
+import PostVideo from "./PostVideo";
+import PostTags from "./PostTags";
 
 type PostCardProps = {
-  post: Models.Document;
+  post: IPost;
 }
 
 const PostCard = ({ post }: PostCardProps) => {
@@ -55,23 +58,30 @@ const PostCard = ({ post }: PostCardProps) => {
         </Link>
       </div>
 
-      <Link to={`/posts/${post.$id}`}>
-        <div className="small-medium lg:base-medium py-5">
+      {/* Tags are links of their own, so they sit outside the link to the post */}
+      <div className="small-medium lg:base-medium py-5">
+        <Link to={`/posts/${post.$id}`}>
           <p>{post.caption}</p>
-          <ul className="flex gap-1 mt-2">
-            {post.tags.map((tag: string, index: string) => {
-              <li key={`${tag}${index}`} className="text-light-3 small-regular">
-                #{tag}
-              </li>
-            })}
-          </ul>
-        </div>
+        </Link>
+        <PostTags tags={post.tags} />
+      </div>
 
-        <img
-          src={post.imageUrl || "/assets/icons/profile-placeholder.svg"}
-          alt="post image"
-          className="post-card_img"
-        />
+      <Link to={`/posts/${post.$id}`}>
+        {post.mediaType === "video" && post.videoUrl ? (
+          <PostVideo
+            src={post.videoUrl}
+            poster={post.imageUrl}
+            className="mb-5"
+            videoClassName="post-card_img !mb-0"
+          />
+        ) : (
+          <PostCarousel
+            images={getPostImages(post)}
+            sizes="(min-width: 640px) 600px, 100vw"
+            className="mb-5"
+            imageClassName="post-card_img !mb-0"
+          />
+        )}
       </Link>
       <PostStats post={post} userId = {user.id}/>
     </div>
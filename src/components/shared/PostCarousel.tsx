@@ -0,0 +1,79 @@
+import React, { useRef, useState } from "react";
+import { IPostImage } from "@/types";
+import ResponsiveImage from "./ResponsiveImage";
+
+type PostCarouselProps = {
+  images: IPostImage[];
+  // The rendered width of a slide, for picking a preview size
+  sizes: string;
+  className?: string;
+  imageClassName?: string;
+};
+
+// Swipeable through native scroll snapping, with a dot per image
+const PostCarousel = ({ images, sizes, className = "", imageClassName = "" }: PostCarouselProps) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  if (images.length <= 1) {
+    return (
+      <div className={className}>
+        <ResponsiveImage
+          src={images[0]?.url || "/assets/icons/profile-placeholder.svg"}
+          imageId={images[0]?.imageId}
+          blurhash={images[0]?.blurhash}
+          sizes={sizes}
+          alt="post image"
+          className={imageClassName}
+        />
+      </div>
+    );
+  }
+
+  const handleScroll = () => {
+    const track = trackRef.current;
+    if (!track) return;
+
+    setActiveIndex(Math.round(track.scrollLeft / track.clientWidth));
+  };
+
+  const handleDotClick = (e: React.MouseEvent, index: number) => {
+    // Dots sit inside links to the post, which should not open
+    e.preventDefault();
+    e.stopPropagation();
+
+    const track = trackRef.current;
+    track?.scrollTo({ left: index * track.clientWidth, behavior: "smooth" });
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <div ref={trackRef} onScroll={handleScroll} className="carousel-track">
+        {images.map((image, index) => (
+          <ResponsiveImage
+            key={`${image.url}${index}`}
+            src={image.url}
+            imageId={image.imageId}
+            blurhash={image.blurhash}
+            sizes={sizes}
+            alt={`post image ${index + 1}`}
+            className={`snap-center shrink-0 ${imageClassName}`}
+          />
+        ))}
+      </div>
+      <div className="carousel-dots">
+        {images.map((image, index) => (
+          <button
+            key={`${image.url}${index}`}
+            type="button"
+            aria-label={`Show image ${index + 1}`}
+            onClick={(e) => handleDotClick(e, index)}
+            className={`carousel-dot ${index === activeIndex && "!bg-primary-500"}`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PostCarousel;
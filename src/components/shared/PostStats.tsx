@@ -1,61 +1,102 @@
-import { useDeleteSavedPost, useGetCurrentUser, useLikePost, useSavePost } from "@/lib/react-query/queriesAndMutations";
+import { useDeleteSavedPost, useGetCurrentUser, useGetUserLikes, useLikePost, useMoveSavedPost, useSavePost, useUnlikePost } from "@/lib/react-query/queriesAndMutations";
 import { checkIsLiked } from "@/lib/utils";
-import { Models } from "appwrite";
-import React, { useEffect, useState } from "react";
-import { useLocation } from "react-router-dom";
+import { IPostSummary } from "@/types";
+import React, { useCallback, useRef, useState } from "react";
+import { Link, useLocation } from "react-router-dom";
+import SaveCollectionMenu from "./SaveCollectionMenu";
 
 type PostStatsProps = {
-    post?: Models.Document;
+    post?: IPostSummary;
     userId: string;
 }
 
+// Holding the save icon this long opens the collection menu instead of toggling the save
+const LONG_PRESS_MS = 500;
+
 const PostStats = ({ post, userId }: PostStatsProps) => {
 
     const location = useLocation();
-    const likesList = post?.likes.map((user: Models.Document) => user.$id)
-
-    const [likes, setLikes] = useState<string[]>(likesList);
-    const [isSaved, setIsSaved] = useState(false);
+    // Likes and saves come straight from the query cache, which the mutations update optimistically
+    const { mutate: likePost, isPending: isLikingPost } = useLikePost();
+    const { mutate: unlikePost, isPending: isUnlikingPost } = useUnlikePost();
+    const { mutate: savePost, isPending: isSavingPost } = useSavePost();
+    const { mutate: deleteSavePost, isPending: isDeletingSave } = useDeleteSavedPost();
+    const { mutate: moveSavedPost, isPending: isMovingSave } = useMoveSavedPost();
 
-
-    const { mutate: likePost } = useLikePost();
-    const { mutate: savePost } = useSavePost();
-    const { mutate: deleteSavePost } = useDeleteSavedPost();
+    const [isCollectionMenuOpen, setIsCollectionMenuOpen] = useState(false);
+    const longPressTimer = useRef<ReturnType<typeof setTimeout>>();
+    const isLongPress = useRef(false);
 
     const { data: currentUser } = useGetCurrentUser();
+    const { data: userLikes } = useGetUserLikes(userId);
 
-    const savedPostRecord = currentUser?.save.find(
-        (record: Models.Document) => record.post.$id === post?.$id
+    const savedPostRecord = currentUser?.save?.find(
+        (record) => record.post?.$id === post?.$id
     );
-
-    useEffect(() => {
-        setIsSaved(!!savedPostRecord);
-    }, [currentUser]);
+    const isSaved = !!savedPostRecord;
+    const isLiked = checkIsLiked(userLikes?.documents, post?.$id);
 
     const handleLikePost = (e: React.MouseEvent<HTMLImageElement, MouseEvent>) => {
         e.stopPropagation();
-        
-        let likesArray = [...likes];
 
-        if (likesArray.includes(userId)) {
-            likesArray = likesArray.filter((Id) => Id !== userId);
-        }
-        else {
-            likesArray.push(userId);
+        if (!post || isLikingPost || isUnlikingPost) return;
+
+        if (isLiked) {
+            return unlikePost({ postId: post.$id, userId });
         }
-        setLikes(likesArray);
-        likePost({ postId: post?.$id || '', likesArray });
+        likePost({ postId: post.$id, userId });
     }
 
     const handleSavePost = (e: React.MouseEvent<HTMLImageElement, MouseEvent>) => {
         e.stopPropagation();
 
+        // The press that opened the collection menu doesn't toggle the save too
+        if (isLongPress.current) {
+            isLongPress.current = false;
+            return;
+        }
+
+        // The optimistic save record has no real id until the save settles
+        if (isSavingPost || isDeletingSave || isMovingSave) return;
+
         if(savedPostRecord) {
-            setIsSaved(false);
             return deleteSavePost(savedPostRecord.$id);
         }
         savePost({ userId: userId, postId: post?.$id || ''});
-        setIsSaved(true);
+    }
+
+    const startLongPress = () => {
+        isLongPress.current = false;
+        longPressTimer.current = setTimeout(() => {
+            isLongPress.current = true;
+            setIsCollectionMenuOpen(true);
+        }, LONG_PRESS_MS);
+    }
+
+    const cancelLongPress = () => clearTimeout(longPressTimer.current);
+
+    const openCollectionMenu = (e: React.MouseEvent<HTMLImageElement, MouseEvent>) => {
+        e.preventDefault();
+        setIsCollectionMenuOpen(true);
+    }
+
+    const closeCollectionMenu = useCallback(() => setIsCollectionMenuOpen(false), []);
+
+    const handleSelectCollection = (collectionId: string | null) => {
+        setIsCollectionMenuOpen(false);
+        if (!post || isSavingPost || isDeletingSave || isMovingSave) return;
+
+        if (!savedPostRecord) {
+            return savePost({ userId, postId: post.$id, collectionId });
+        }
+        if ((savedPostRecord.collectionId ?? null) !== collectionId) {
+            moveSavedPost({ savedRecordId: savedPostRecord.$id, collectionId });
+        }
+    }
+
+    const handleRemoveSave = () => {
+        setIsCollectionMenuOpen(false);
+        if (savedPostRecord && !isSavingPost && !isDeletingSave) deleteSavePost(savedPostRecord.$id);
     }
 
     const containerStyles = location.pathname.startsWith("/profile")
@@ -66,7 +107,7 @@ const PostStats = ({ post, userId }: PostStatsProps) => {
         <div className={`flex justify-between items-center z-20 ${containerStyles}`}>
             <div className="flex gap-2 mr-5">
                 <img
-                    src={`${checkIsLiked(likes, userId)
+                    src={`${isLiked
                         ? "/assets/icons/liked.svg"
                         : "/assets/icons/like.svg"
                     }`}
@@ -76,18 +117,42 @@ const PostStats = ({ post, userId }: PostStatsProps) => {
                     onClick={(e) => handleLikePost(e)}
                     className="cursor-pointer"
                 />
-                <p className="small-medium lg:base-medium">{likes.length}</p>
+                <p className="small-medium lg:base-medium">{post?.likesCount ?? 0}</p>
             </div>
 
-            <div className="flex gap-2">
+            <Link to={`/posts/${post?.$id}`} className="flex gap-2 mr-auto">
+                <img
+                    src="/assets/icons/chat.svg"
+                    alt="comments"
+                    width={20}
+                    height={20}
+                />
+                <p className="small-medium lg:base-medium">{post?.commentsCount ?? 0}</p>
+            </Link>
+
+            <div className="relative flex gap-2">
                 <img
                     src={isSaved ? "/assets/icons/saved.svg" : "/assets/icons/save.svg"}
                     alt="save" 
+                    title="Hold to save to a collection"
                     width={20}
                     height={20}
                     onClick={(e) => handleSavePost(e)}
-                    className="cursor-pointer"
+                    onPointerDown={startLongPress}
+                    onPointerUp={cancelLongPress}
+                    onPointerLeave={cancelLongPress}
+                    onContextMenu={openCollectionMenu}
+                    className="cursor-pointer select-none"
                 />
+                {isCollectionMenuOpen && (
+                    <SaveCollectionMenu
+                        userId={userId}
+                        selectedId={savedPostRecord ? savedPostRecord.collectionId ?? null : undefined}
+                        onSelect={handleSelectCollection}
+                        onRemove={handleRemoveSave}
+                        onClose={closeCollectionMenu}
+                    />
+                )}
             </div>
 
         </div>
@@ -0,0 +1,28 @@
+import { Link } from "react-router-dom";
+import { getTagPath } from "@/lib/utils";
+
+type PostTagsProps = {
+  tags: string[];
+  className?: string;
+};
+
+// Each tag links to the page of every post carrying it
+const PostTags = ({ tags, className = "" }: PostTagsProps) => {
+  // Posts saved before tags were cleaned up can hold empty ones
+  const visibleTags = tags.filter(Boolean);
+  if (visibleTags.length === 0) return null;
+
+  return (
+    <ul className={`flex flex-wrap gap-1 mt-2 ${className}`}>
+      {visibleTags.map((tag, index) => (
+        <li key={`${tag}${index}`}>
+          <Link to={getTagPath(tag)} className="text-light-3 small-regular hover:text-primary-500">
+            #{tag}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default PostTags;
@@ -0,0 +1,47 @@
+import { useEffect, useRef } from "react";
+import { useInView } from "react-intersection-observer";
+
+type PostVideoProps = {
+  src: string;
+  poster: string;
+  className?: string;
+  videoClassName?: string;
+  // Lets the viewer unmute and scrub, off in feeds where a tap opens the post
+  controls?: boolean;
+};
+
+// Muted and looping like a moving photo, playing only while it is on screen
+const PostVideo = ({ src, poster, className = "", videoClassName = "", controls = false }: PostVideoProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const { ref, inView } = useInView({ threshold: 0.5 });
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (inView) {
+      // Browsers may still refuse to autoplay, the poster stays up in that case
+      video.play().catch(() => {});
+    } else {
+      video.pause();
+    }
+  }, [inView]);
+
+  return (
+    <div ref={ref} className={className}>
+      <video
+        ref={videoRef}
+        src={src}
+        poster={poster}
+        muted
+        loop
+        playsInline
+        preload="metadata"
+        controls={controls}
+        className={videoClassName}
+      />
+    </div>
+  );
+};
+
+export default PostVideo;
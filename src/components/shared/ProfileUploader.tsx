@@ -1,5 +1,7 @@
 import { convertFileToUrl } from '@/lib/utils';
-import { useCallback, useState } from 'react'
+import { preprocessImage } from '@/lib/imageProcessing';
+import { toAppError } from '@/lib/errors';
+import { useCallback, useEffect, useRef, useState } from 'react'
 import { FileWithPath, useDropzone } from 'react-dropzone';
 
 type ProfileUploaderProps = {
@@ -9,16 +11,35 @@ type ProfileUploaderProps = {
 
 const ProfileUploader = ({ fieldChange, mediaUrl } : ProfileUploaderProps) => {
 
-    const [file, setFile] = useState<File[]>([]);
     const [fileUrl, setFileUrl] = useState<string>(mediaUrl);
+    const [notice, setNotice] = useState("");
+
+    // Preview of the dropped photo, let go when another one replaces it or the form closes
+    const previewUrlRef = useRef<string>();
+
+    useEffect(() => {
+        const previewUrl = previewUrlRef;
+        return () => {
+            if (previewUrl.current) URL.revokeObjectURL(previewUrl.current);
+        };
+    }, []);
 
     const onDrop = useCallback(
-        (acceptedFiles: FileWithPath[]) => {
-            setFile(acceptedFiles);
-            fieldChange(acceptedFiles);
-            setFileUrl(convertFileToUrl(acceptedFiles[0]));
+        async (acceptedFiles: FileWithPath[]) => {
+            try {
+                const { file: processedFile } = await preprocessImage(acceptedFiles[0]);
+                fieldChange([processedFile]);
+                const previewUrl = convertFileToUrl(processedFile);
+                if (previewUrlRef.current) URL.revokeObjectURL(previewUrlRef.current);
+                previewUrlRef.current = previewUrl;
+                setFileUrl(previewUrl);
+                setNotice("");
+            }
+            catch (error) {
+                setNotice(toAppError(error).message);
+            }
         },
-        [file]
+        [fieldChange]
     )
 
     const { getRootProps, getInputProps } = useDropzone({
@@ -44,6 +65,8 @@ const ProfileUploader = ({ fieldChange, mediaUrl } : ProfileUploaderProps) => {
                 
             </div>
 
+            {notice && <p className='shad-form_message mt-2'>{notice}</p>}
+
         </div>
     )
 }
@@ -0,0 +1,24 @@
+import { Button } from "@/components/ui/button";
+import { AppErrorKind, getErrorMessage } from "@/lib/errors";
+
+type QueryErrorProps = {
+  error: unknown;
+  onRetry: () => void;
+  // Wording for kinds of errors where the generic message says too little
+  messages?: Partial<Record<AppErrorKind, string>>;
+  className?: string;
+};
+
+// Says why something failed to load, with a way to load it again
+const QueryError = ({ error, onRetry, messages, className = "" }: QueryErrorProps) => {
+  return (
+    <div className={`flex-center flex-col gap-4 w-full ${className}`}>
+      <p className="body-medium text-light-3 text-center">{getErrorMessage(error, messages)}</p>
+      <Button type="button" className="shad-button_dark_4" onClick={() => onRetry()}>
+        Try again
+      </Button>
+    </div>
+  );
+};
+
+export default QueryError;
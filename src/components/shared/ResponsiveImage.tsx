@@ -0,0 +1,65 @@
+import { useMemo } from "react";
+import { decode } from "blurhash";
+import { getFilePreviewSrcSet } from "@/lib/appwrite/api";
+
+type ResponsiveImageProps = {
+  src: string;
+  alt: string;
+  // Stored file the smaller previews are derived from, plain src is used without one
+  imageId?: string | null;
+  blurhash?: string | null;
+  sizes: string;
+  className?: string;
+  eager?: boolean;
+};
+
+const PLACEHOLDER_SIZE = 32;
+
+// Decoded placeholders as data urls, shared by every copy of the same image
+const placeholders = new Map<string, string | undefined>();
+
+const getPlaceholder = (blurhash: string) => {
+  if (!placeholders.has(blurhash)) {
+    let placeholder: string | undefined;
+    try {
+      const canvas = document.createElement("canvas");
+      canvas.width = PLACEHOLDER_SIZE;
+      canvas.height = PLACEHOLDER_SIZE;
+
+      const context = canvas.getContext("2d");
+      const imageData = context?.createImageData(PLACEHOLDER_SIZE, PLACEHOLDER_SIZE);
+      if (context && imageData) {
+        imageData.data.set(decode(blurhash, PLACEHOLDER_SIZE, PLACEHOLDER_SIZE));
+        context.putImageData(imageData, 0, 0);
+        placeholder = canvas.toDataURL();
+      }
+    }
+    catch {
+      // An undecodable placeholder leaves the image to load without one
+    }
+    placeholders.set(blurhash, placeholder);
+  }
+
+  return placeholders.get(blurhash);
+};
+
+// Lets the browser pick a preview that fits the layout, with the blurred colours showing until it arrives
+const ResponsiveImage = ({ src, alt, imageId, blurhash, sizes, className = "", eager = false }: ResponsiveImageProps) => {
+  const srcSet = useMemo(() => (imageId ? getFilePreviewSrcSet(imageId) : undefined), [imageId]);
+  const placeholder = useMemo(() => (blurhash ? getPlaceholder(blurhash) : undefined), [blurhash]);
+
+  return (
+    <img
+      src={src}
+      srcSet={srcSet}
+      sizes={srcSet ? sizes : undefined}
+      alt={alt}
+      loading={eager ? "eager" : "lazy"}
+      decoding="async"
+      className={className}
+      style={placeholder ? { backgroundImage: `url(${placeholder})`, backgroundSize: "cover" } : undefined}
+    />
+  );
+};
+
+export default ResponsiveImage;
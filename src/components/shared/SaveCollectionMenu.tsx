@@ -0,0 +1,65 @@
+import { useEffect, useRef } from "react";
+import { useGetSavedCollections } from "@/lib/react-query/queriesAndMutations";
+import SavedCollectionForm from "./SavedCollectionForm";
+
+type SaveCollectionMenuProps = {
+  userId: string;
+  // The collection holding the post, null when it is saved outside of them and undefined when it isn't saved
+  selectedId?: string | null;
+  onSelect: (collectionId: string | null) => void;
+  onRemove: () => void;
+  onClose: () => void;
+};
+
+// Picks the saved collection a post goes into, or moves it to another one
+const SaveCollectionMenu = ({ userId, selectedId, onSelect, onRemove, onClose }: SaveCollectionMenuProps) => {
+  const menuRef = useRef<HTMLDivElement>(null);
+  const { data: collections } = useGetSavedCollections(userId);
+
+  // Closing when anything outside the menu is clicked
+  useEffect(() => {
+    const handleClick = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) onClose();
+    };
+
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [onClose]);
+
+  const renderOption = (collectionId: string | null, name: string, coverUrl?: string) => (
+    <li key={collectionId ?? "all"}>
+      <button
+        type="button"
+        onClick={() => onSelect(collectionId)}
+        className={`save-collection_option ${selectedId === collectionId && "bg-dark-4"}`}>
+        {coverUrl ? (
+          <img src={coverUrl} alt="" className="h-8 w-8 shrink-0 rounded-md object-cover" />
+        ) : (
+          <span className="flex-center h-8 w-8 shrink-0 rounded-md bg-dark-4">
+            <img src="/assets/icons/save.svg" alt="" width={16} height={16} />
+          </span>
+        )}
+        <span className="line-clamp-1 flex-1">{name}</span>
+        {selectedId === collectionId && <img src="/assets/icons/saved.svg" alt="selected" width={16} height={16} />}
+      </button>
+    </li>
+  );
+
+  return (
+    <div ref={menuRef} className="save-collection_menu" onClick={(e) => e.stopPropagation()}>
+      <p className="small-semibold text-light-2">Save to</p>
+      <ul className="flex flex-col gap-1 max-h-60 overflow-y-auto custom-scrollbar">
+        {renderOption(null, "All saved")}
+        {collections?.map((collection) => renderOption(collection.$id, collection.name, collection.cover?.imageUrl))}
+      </ul>
+      <SavedCollectionForm userId={userId} onCreated={(collection) => onSelect(collection.$id)} />
+      {selectedId !== undefined && (
+        <button type="button" onClick={onRemove} className="small-medium text-red text-left">
+          Remove from saved
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SaveCollectionMenu;
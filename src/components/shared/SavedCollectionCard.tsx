@@ -0,0 +1,39 @@
+import { Link } from "react-router-dom";
+import { ISavedCollectionSummary } from "@/types";
+import ResponsiveImage from "./ResponsiveImage";
+
+type SavedCollectionCardProps = {
+  collection: ISavedCollectionSummary;
+};
+
+const SavedCollectionCard = ({ collection }: SavedCollectionCardProps) => {
+  const { cover, savesCount } = collection;
+
+  return (
+    <li>
+      <Link to={`/saved/${collection.$id}`} className="saved-collection_card">
+        {cover ? (
+          <ResponsiveImage
+            src={cover.imageUrl}
+            imageId={cover.imageId}
+            blurhash={cover.imageBlurhashes[0]}
+            sizes="240px"
+            alt="cover"
+            className="saved-collection_cover" />
+        ) : (
+          <div className="saved-collection_cover flex-center bg-dark-3">
+            <img src="/assets/icons/save.svg" alt="empty collection" width={36} height={36} />
+          </div>
+        )}
+        <div className="flex flex-col gap-1">
+          <p className="base-medium text-light-1 line-clamp-1">{collection.name}</p>
+          <p className="small-regular text-light-3">
+            {savesCount} {savesCount === 1 ? "post" : "posts"}
+          </p>
+        </div>
+      </Link>
+    </li>
+  );
+};
+
+export default SavedCollectionCard;
@@ -0,0 +1,46 @@
+import { FormEvent, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { useCreateSavedCollection } from "@/lib/react-query/queriesAndMutations";
+import { ISavedCollection } from "@/types";
+
+type SavedCollectionFormProps = {
+  userId: string;
+  onCreated?: (collection: ISavedCollection) => void;
+};
+
+const MAX_NAME_LENGTH = 40;
+
+// A name field creating a saved collection
+const SavedCollectionForm = ({ userId, onCreated }: SavedCollectionFormProps) => {
+  const [name, setName] = useState("");
+  const { mutate: createSavedCollection, isPending } = useCreateSavedCollection();
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!name.trim() || isPending) return;
+
+    createSavedCollection({ userId, name }, {
+      onSuccess: (collection) => {
+        setName("");
+        onCreated?.(collection);
+      },
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex gap-2 w-full">
+      <Input
+        type="text"
+        placeholder="New collection"
+        maxLength={MAX_NAME_LENGTH}
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        className="shad-input" />
+      <button type="submit" disabled={!name.trim() || isPending} className="explore-filter_chip disabled:opacity-50">
+        Create
+      </button>
+    </form>
+  );
+};
+
+export default SavedCollectionForm;
@@ -0,0 +1,28 @@
+import { useSearchUsers } from "@/lib/react-query/queriesAndMutations";
+import { flattenPages } from "@/lib/utils";
+import SearchPersonRow from "./SearchPersonRow";
+import SearchResultList from "./SearchResultList";
+
+type SearchPeopleResultsProps = {
+  searchTerm: string;
+};
+
+// Users whose name or username matches the search
+const SearchPeopleResults = ({ searchTerm }: SearchPeopleResultsProps) => {
+  const { data, fetchNextPage, hasNextPage } = useSearchUsers(searchTerm);
+  const users = flattenPages(data);
+
+  return (
+    <SearchResultList
+      isLoading={!data}
+      isEmpty={users.length === 0}
+      hasNextPage={hasNextPage}
+      fetchNextPage={fetchNextPage}>
+      {users.map((user) => (
+        <SearchPersonRow key={user.$id} user={user} searchTerm={searchTerm} />
+      ))}
+    </SearchResultList>
+  );
+};
+
+export default SearchPeopleResults;
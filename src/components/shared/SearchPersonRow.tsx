@@ -0,0 +1,34 @@
+import { Link } from "react-router-dom";
+import { IUserDocument } from "@/types";
+import HighlightedText from "./HighlightedText";
+import ResponsiveImage from "./ResponsiveImage";
+
+type SearchPersonRowProps = {
+  user: IUserDocument;
+  searchTerm: string;
+};
+
+const SearchPersonRow = ({ user, searchTerm }: SearchPersonRowProps) => {
+  return (
+    <li>
+      <Link to={`/profile/${user.$id}`} className="search_result" data-search-result>
+        <ResponsiveImage
+          src={user.imageUrl || "/assets/icons/profile-placeholder.svg"}
+          imageId={user.imageId}
+          sizes="48px"
+          alt="profile"
+          className="h-12 w-12 shrink-0 rounded-full object-cover" />
+        <div className="flex flex-col min-w-0">
+          <p className="base-medium text-light-1 line-clamp-1">
+            <HighlightedText text={user.name} searchTerm={searchTerm} />
+          </p>
+          <p className="small-regular text-light-3 line-clamp-1">
+            @<HighlightedText text={user.username} searchTerm={searchTerm} />
+          </p>
+        </div>
+      </Link>
+    </li>
+  );
+};
+
+export default SearchPersonRow;
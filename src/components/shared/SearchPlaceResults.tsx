@@ -0,0 +1,28 @@
+import { useSearchPlaces } from "@/lib/react-query/queriesAndMutations";
+import { flattenPages } from "@/lib/utils";
+import SearchPostRow from "./SearchPostRow";
+import SearchResultList from "./SearchResultList";
+
+type SearchPlaceResultsProps = {
+  searchTerm: string;
+};
+
+// Posts taken at a location matching the search
+const SearchPlaceResults = ({ searchTerm }: SearchPlaceResultsProps) => {
+  const { data, fetchNextPage, hasNextPage } = useSearchPlaces(searchTerm);
+  const posts = flattenPages(data);
+
+  return (
+    <SearchResultList
+      isLoading={!data}
+      isEmpty={posts.length === 0}
+      hasNextPage={hasNextPage}
+      fetchNextPage={fetchNextPage}>
+      {posts.map((post) => (
+        <SearchPostRow key={post.$id} post={post} searchTerm={searchTerm} showLocation />
+      ))}
+    </SearchResultList>
+  );
+};
+
+export default SearchPlaceResults;
@@ -0,0 +1,28 @@
+import { useSearchPosts } from "@/lib/react-query/queriesAndMutations";
+import { flattenPages } from "@/lib/utils";
+import SearchPostRow from "./SearchPostRow";
+import SearchResultList from "./SearchResultList";
+
+type SearchPostResultsProps = {
+  searchTerm: string;
+};
+
+// Posts whose caption matches the search
+const SearchPostResults = ({ searchTerm }: SearchPostResultsProps) => {
+  const { data, fetchNextPage, hasNextPage } = useSearchPosts(searchTerm);
+  const posts = flattenPages(data);
+
+  return (
+    <SearchResultList
+      isLoading={!data}
+      isEmpty={posts.length === 0}
+      hasNextPage={hasNextPage}
+      fetchNextPage={fetchNextPage}>
+      {posts.map((post) => (
+        <SearchPostRow key={post.$id} post={post} searchTerm={searchTerm} />
+      ))}
+    </SearchResultList>
+  );
+};
+
+export default SearchPostResults;
@@ -0,0 +1,40 @@
+import { Link } from "react-router-dom";
+import { IPost } from "@/types";
+import HighlightedText from "./HighlightedText";
+import ResponsiveImage from "./ResponsiveImage";
+
+type SearchPostRowProps = {
+  post: IPost;
+  searchTerm: string;
+  // Place results lead with where the post was taken
+  showLocation?: boolean;
+};
+
+const SearchPostRow = ({ post, searchTerm, showLocation = false }: SearchPostRowProps) => {
+  return (
+    <li>
+      <Link to={`/posts/${post.$id}`} className="search_result" data-search-result>
+        <ResponsiveImage
+          src={post.imageUrl}
+          imageId={post.imageId}
+          blurhash={post.imageBlurhashes[0]}
+          sizes="56px"
+          alt="post"
+          className="h-14 w-14 shrink-0 rounded-lg object-cover" />
+        <div className="flex flex-col gap-1 min-w-0">
+          {showLocation && post.location && (
+            <p className="base-medium text-light-1 line-clamp-1">
+              <HighlightedText text={post.location} searchTerm={searchTerm} />
+            </p>
+          )}
+          <p className={showLocation ? "small-regular text-light-3 line-clamp-1" : "base-medium text-light-1 line-clamp-2"}>
+            <HighlightedText text={post.caption} searchTerm={searchTerm} />
+          </p>
+          <p className="tiny-medium text-light-4">@{post.creator.username}</p>
+        </div>
+      </Link>
+    </li>
+  );
+};
+
+export default SearchPostRow;
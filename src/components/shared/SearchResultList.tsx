@@ -0,0 +1,29 @@
+import { ReactNode } from "react";
+import Loader from "./Loader";
+import LoadMore from "./LoadMore";
+
+type SearchResultListProps = {
+  isLoading: boolean;
+  isEmpty: boolean;
+  hasNextPage: boolean;
+  fetchNextPage: () => void;
+  children: ReactNode;
+};
+
+// The loading, empty and paging states every search tab shares
+const SearchResultList = ({ isLoading, isEmpty, hasNextPage, fetchNextPage, children }: SearchResultListProps) => {
+  if (isLoading) return <Loader />;
+
+  if (isEmpty) {
+    return <p className="text-primary-500 mt-10 text-center w-full">No result found</p>;
+  }
+
+  return (
+    <>
+      <ul className="flex flex-col gap-2 w-full">{children}</ul>
+      <LoadMore hasNextPage={hasNextPage} fetchNextPage={fetchNextPage} />
+    </>
+  );
+};
+
+export default SearchResultList;
@@ -1,26 +1,56 @@
-import { Models } from "appwrite";
-import Loader from "./Loader";
-import GridPostList from "./GridPostList";
+import { KeyboardEvent } from "react";
+import { SEARCH_TABS } from "@/constants";
+import { ISearchTab } from "@/types";
+import SearchPeopleResults from "./SearchPeopleResults";
+import SearchPlaceResults from "./SearchPlaceResults";
+import SearchPostResults from "./SearchPostResults";
+import SearchTagResults from "./SearchTagResults";
+import SearchTopResults from "./SearchTopResults";
 
 
 type SearchResultProps = {
-    isSearchFetching: boolean;
-    searchedPosts?: Models.DocumentList<Models.Document>;
+    searchTerm: string;
+    activeTab: ISearchTab;
+    onTabChange: (tab: ISearchTab) => void;
 }
 
-const SearchResults = ({ isSearchFetching, searchedPosts }: SearchResultProps) => {
-    if(isSearchFetching)
-        return <Loader />
-    
-    if(searchedPosts && searchedPosts.documents.length > 0) {
-        return (
-            <GridPostList posts={searchedPosts.documents}/>
-        )
-    }
+const SearchResults = ({ searchTerm, activeTab, onTabChange }: SearchResultProps) => {
+    // Arrow keys move between the tabs once one of them has focus
+    const handleTabKeyDown = (event: KeyboardEvent<HTMLButtonElement>) => {
+        if (event.key !== "ArrowLeft" && event.key !== "ArrowRight") return;
+
+        const index = SEARCH_TABS.findIndex((tab) => tab.value === activeTab);
+        const next = SEARCH_TABS[(index + (event.key === "ArrowRight" ? 1 : -1) + SEARCH_TABS.length) % SEARCH_TABS.length];
+        onTabChange(next.value);
+        (event.currentTarget.parentElement?.querySelector(`[data-tab="${next.value}"]`) as HTMLElement | null)?.focus();
+    };
 
     return (
-        <p className="text-primary-500 mt-10 text-center w-full">No result found</p>
+        <div className="flex flex-col gap-6 w-full">
+            <div role="tablist" className="search_tabs">
+                {SEARCH_TABS.map((tab) => (
+                    <button
+                        key={tab.value}
+                        type="button"
+                        role="tab"
+                        data-tab={tab.value}
+                        aria-selected={activeTab === tab.value}
+                        tabIndex={activeTab === tab.value ? 0 : -1}
+                        onClick={() => onTabChange(tab.value)}
+                        onKeyDown={handleTabKeyDown}
+                        className={`search_tab ${activeTab === tab.value && "search_tab-active"}`}>
+                        {tab.label}
+                    </button>
+                ))}
+            </div>
+
+            {activeTab === "top" && <SearchTopResults searchTerm={searchTerm} onTabChange={onTabChange} />}
+            {activeTab === "posts" && <SearchPostResults searchTerm={searchTerm} />}
+            {activeTab === "people" && <SearchPeopleResults searchTerm={searchTerm} />}
+            {activeTab === "tags" && <SearchTagResults searchTerm={searchTerm} />}
+            {activeTab === "places" && <SearchPlaceResults searchTerm={searchTerm} />}
+        </div>
     )
 }
 
-export default SearchResults
\ No newline at end of file
+export default SearchResults
@@ -0,0 +1,126 @@
+import { Link } from "react-router-dom";
+import { RefObject } from "react";
+import { useUserContext } from "@/context/userContext";
+import { getTagPath } from "@/lib/utils";
+import {
+  useClearRecentSearches,
+  useDeleteRecentSearch,
+  useGetRecentSearches,
+  useGetSearchSuggestions,
+} from "@/lib/react-query/queriesAndMutations";
+import { ISearchTab } from "@/types";
+import HighlightedText from "./HighlightedText";
+import Loader from "./Loader";
+import ResponsiveImage from "./ResponsiveImage";
+
+type SearchSuggestionsProps = {
+  containerRef: RefObject<HTMLDivElement>;
+  searchTerm: string;
+  // Runs a search, optionally on a given tab
+  onSelect: (query: string, tab?: ISearchTab) => void;
+  // Called before a suggestion leaves Explore for a profile or tag page
+  onNavigate: () => void;
+};
+
+// Recent searches while the search box is empty, matching people, tags and places while typing
+const SearchSuggestions = ({ containerRef, searchTerm, onSelect, onNavigate }: SearchSuggestionsProps) => {
+  const { user } = useUserContext();
+  const { data: recentSearches } = useGetRecentSearches(user.id);
+  const { data: suggestions, isFetching } = useGetSearchSuggestions(searchTerm);
+  const { mutate: deleteRecentSearch } = useDeleteRecentSearch();
+  const { mutate: clearRecentSearches } = useClearRecentSearches();
+
+  const hasSuggestions = !!suggestions && (suggestions.users.length > 0 || suggestions.tags.length > 0 || suggestions.locations.length > 0);
+
+  if (!searchTerm && !recentSearches?.length) return null;
+  if (searchTerm && !hasSuggestions && !isFetching) return null;
+
+  return (
+    // Keeps the focus in the search box, so picking a suggestion doesn't close the list first
+    <div ref={containerRef} className="search_suggestions" onMouseDown={(e) => e.preventDefault()}>
+      {!searchTerm ? (
+        <>
+          <div className="flex-between px-3 pb-2">
+            <p className="small-semibold text-light-3">Recent</p>
+            <button
+              type="button"
+              onClick={() => clearRecentSearches(user.id)}
+              className="small-medium text-primary-500">
+              Clear all
+            </button>
+          </div>
+          <ul>
+            {recentSearches?.map((search) => (
+              <li key={search.$id} className="flex items-center">
+                <button
+                  type="button"
+                  onClick={() => onSelect(search.query)}
+                  className="search_suggestion"
+                  data-search-result>
+                  <img src="/assets/icons/search.svg" alt="" width={18} height={18} />
+                  <span className="line-clamp-1">{search.query}</span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => deleteRecentSearch({ userId: user.id, searchId: search.$id })}
+                  className="shrink-0 p-2 opacity-60 hover:opacity-100">
+                  <img src="/assets/icons/delete.svg" alt={`remove ${search.query}`} width={16} height={16} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      ) : !suggestions ? (
+        <div className="flex-center py-3">
+          <Loader />
+        </div>
+      ) : (
+        <ul>
+          {suggestions.users.map((suggestedUser) => (
+            <li key={suggestedUser.$id}>
+              <Link to={`/profile/${suggestedUser.$id}`} onClick={onNavigate} className="search_suggestion" data-search-result>
+                <ResponsiveImage
+                  src={suggestedUser.imageUrl || "/assets/icons/profile-placeholder.svg"}
+                  imageId={suggestedUser.imageId}
+                  sizes="28px"
+                  alt="profile"
+                  className="h-7 w-7 shrink-0 rounded-full object-cover" />
+                <span className="line-clamp-1">
+                  <HighlightedText text={suggestedUser.name} searchTerm={searchTerm} />
+                  <span className="text-light-3"> @<HighlightedText text={suggestedUser.username} searchTerm={searchTerm} /></span>
+                </span>
+              </Link>
+            </li>
+          ))}
+          {suggestions.tags.map(({ tag, postsCount }) => (
+            <li key={tag}>
+              <Link to={getTagPath(tag)} onClick={onNavigate} className="search_suggestion" data-search-result>
+                <span className="flex-center h-7 w-7 shrink-0 rounded-full bg-dark-4 text-light-2">#</span>
+                <span className="line-clamp-1">
+                  #<HighlightedText text={tag} searchTerm={searchTerm} />
+                  <span className="text-light-3"> · {postsCount} {postsCount === 1 ? "post" : "posts"}</span>
+                </span>
+              </Link>
+            </li>
+          ))}
+          {suggestions.locations.map((location) => (
+            <li key={location}>
+              <button
+                type="button"
+                onClick={() => onSelect(location, "places")}
+                className="search_suggestion"
+                data-search-result>
+                <img src="/assets/icons/location.svg" alt="" width={18} height={18} className="mx-[5px]" />
+                <span className="line-clamp-1">
+                  <HighlightedText text={location} searchTerm={searchTerm} />
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SearchSuggestions;
@@ -0,0 +1,30 @@
+import { useSearchTags } from "@/lib/react-query/queriesAndMutations";
+import { parseTags } from "@/lib/utils";
+import SearchResultList from "./SearchResultList";
+import SearchTagRow from "./SearchTagRow";
+
+type SearchTagResultsProps = {
+  searchTerm: string;
+};
+
+// Tags containing the search, counted over recent posts
+const SearchTagResults = ({ searchTerm }: SearchTagResultsProps) => {
+  const { data, fetchNextPage, hasNextPage } = useSearchTags(searchTerm);
+  const tags = data?.pages.flatMap((page) => page.tags) ?? [];
+  // Tags are matched without their leading #
+  const [tagTerm = ""] = parseTags(searchTerm);
+
+  return (
+    <SearchResultList
+      isLoading={!data}
+      isEmpty={tags.length === 0}
+      hasNextPage={hasNextPage}
+      fetchNextPage={fetchNextPage}>
+      {tags.map((tagCount) => (
+        <SearchTagRow key={tagCount.tag} tagCount={tagCount} searchTerm={tagTerm} />
+      ))}
+    </SearchResultList>
+  );
+};
+
+export default SearchTagResults;
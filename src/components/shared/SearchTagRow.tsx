@@ -0,0 +1,29 @@
+import { Link } from "react-router-dom";
+import { getTagPath } from "@/lib/utils";
+import { ITagCount } from "@/types";
+import HighlightedText from "./HighlightedText";
+
+type SearchTagRowProps = {
+  tagCount: ITagCount;
+  searchTerm: string;
+};
+
+const SearchTagRow = ({ tagCount: { tag, postsCount }, searchTerm }: SearchTagRowProps) => {
+  return (
+    <li>
+      <Link to={getTagPath(tag)} className="search_result" data-search-result>
+        <div className="flex-center h-12 w-12 shrink-0 rounded-full bg-dark-4 h3-bold text-light-2">#</div>
+        <div className="flex flex-col min-w-0">
+          <p className="base-medium text-light-1 line-clamp-1">
+            #<HighlightedText text={tag} searchTerm={searchTerm} />
+          </p>
+          <p className="small-regular text-light-3">
+            {postsCount} {postsCount === 1 ? "post" : "posts"}
+          </p>
+        </div>
+      </Link>
+    </li>
+  );
+};
+
+export default SearchTagRow;
@@ -0,0 +1,59 @@
+import { useSearchTags, useSearchTopPosts, useSearchUsers } from "@/lib/react-query/queriesAndMutations";
+import { flattenPages, parseTags } from "@/lib/utils";
+import { ISearchTab } from "@/types";
+import SearchPersonRow from "./SearchPersonRow";
+import SearchPostRow from "./SearchPostRow";
+import SearchResultList from "./SearchResultList";
+import SearchTagRow from "./SearchTagRow";
+
+type SearchTopResultsProps = {
+  searchTerm: string;
+  onTabChange: (tab: ISearchTab) => void;
+};
+
+// People and tags shown ahead of the posts, the rest of them is a tab away
+const TOP_PREVIEW_LIMIT = 3;
+
+// The best matches of every kind, sharing their queries with the other tabs
+const SearchTopResults = ({ searchTerm, onTabChange }: SearchTopResultsProps) => {
+  const { data: usersData } = useSearchUsers(searchTerm);
+  const { data: tagsData } = useSearchTags(searchTerm);
+  const { data: postsData, fetchNextPage, hasNextPage } = useSearchTopPosts(searchTerm);
+
+  const users = flattenPages(usersData).slice(0, TOP_PREVIEW_LIMIT);
+  const tags = (tagsData?.pages[0]?.tags ?? []).slice(0, TOP_PREVIEW_LIMIT);
+  const posts = flattenPages(postsData);
+  const [tagTerm = ""] = parseTags(searchTerm);
+
+  const renderHeader = (title: string, tab: ISearchTab) => (
+    <li className="flex-between w-full mt-4 first:mt-0">
+      <p className="small-semibold text-light-2">{title}</p>
+      <button type="button" onClick={() => onTabChange(tab)} className="small-medium text-primary-500">
+        See all
+      </button>
+    </li>
+  );
+
+  return (
+    <SearchResultList
+      isLoading={!usersData || !tagsData || !postsData}
+      isEmpty={users.length === 0 && tags.length === 0 && posts.length === 0}
+      hasNextPage={hasNextPage}
+      fetchNextPage={fetchNextPage}>
+      {users.length > 0 && renderHeader("People", "people")}
+      {users.map((user) => (
+        <SearchPersonRow key={user.$id} user={user} searchTerm={searchTerm} />
+      ))}
+      {tags.length > 0 && renderHeader("Tags", "tags")}
+      {tags.map((tagCount) => (
+        <SearchTagRow key={tagCount.tag} tagCount={tagCount} searchTerm={tagTerm} />
+      ))}
+      {posts.length > 0 && renderHeader("Posts", "posts")}
+      {posts.map((post) => (
+        <SearchPostRow key={post.$id} post={post} searchTerm={searchTerm} />
+      ))}
+    </SearchResultList>
+  );
+};
+
+export default SearchTopResults;
@@ -2,17 +2,18 @@ import { useEffect } from "react";
 import { Link, useNavigate } from "react-router-dom";
 
 import { Button } from "../ui/button";
-import { useUserContext } from "@/context/AuthContext";
-import { useSignOutAccount } from "@/lib/react-query/queriesAndMutations";
+import { useUserContext } from "@/context/userContext";
+import { useGetUnreadNotificationsCount, useSignOutAccount } from "@/lib/react-query/queriesAndMutations";
 
 const Topbar = () => {
   const navigate = useNavigate();
   const { user } = useUserContext();
   const { mutate: signOut, isSuccess } = useSignOutAccount();
+  const { data: unreadCount } = useGetUnreadNotificationsCount(user.id);
 
   useEffect(() => {
     if (isSuccess) navigate(0);
-  }, [isSuccess]);
+  }, [isSuccess, navigate]);
 
   return (
     <section className="topbar">
@@ -27,6 +28,14 @@ const Topbar = () => {
         </Link>
 
         <div className="flex gap-4">
+          <Link to="/notifications" className="relative flex-center">
+            <img src="/assets/icons/notification.svg" alt="notifications" />
+            {!!unreadCount && (
+              <span className="absolute -top-1 -right-2 min-w-[18px] h-[18px] px-1 flex-center rounded-full bg-red tiny-medium text-light-1">
+                {unreadCount > 99 ? "99+" : unreadCount}
+              </span>
+            )}
+          </Link>
           <Button
             variant="ghost"
             className="shad-button_ghost"
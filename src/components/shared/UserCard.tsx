@@ -1,18 +1,21 @@
-import { Models } from 'appwrite'
+import { IUserDocument } from '@/types';
 import { Link } from 'react-router-dom';
-import { Button } from '../ui/button';
+import FollowButton from './FollowButton';
+import ResponsiveImage from './ResponsiveImage';
 
 type UserCardProps = {
-    user: Models.Document;
+    user: IUserDocument;
 }
 
 const UserCard = ({ user }: UserCardProps) => {
     return (
         <Link to={`/profile/${user.$id}`} className='user-card'>
-            <img
+            <ResponsiveImage
                 src={user.imageUrl || "/assets/icons/profile-placeholder.svg"}
+                imageId={user.imageId}
+                sizes="56px"
                 alt="creator"
-                className='rounded-full w-14 h-14' />
+                className='rounded-full w-14 h-14 object-cover' />
             <div className='flex-center flex-col gap-1'>
                 <p className='base-medium text-light-1 text-center line-clamp-1'>
                     {user.name}
@@ -21,9 +24,7 @@ const UserCard = ({ user }: UserCardProps) => {
                     @{user.username}
                 </p>
             </div>
-            <Button type='button' size="sm" className='shad-button_primary px-5'>
-                Follow
-            </Button>
+            <FollowButton userId={user.$id} size="sm" className='px-5' />
         </Link>
     );
 };
@@ -1,3 +1,5 @@
+import { IExploreFilters } from "@/types";
+
 export const sidebarLinks = [
     {
       imgURL: "/assets/icons/home.svg",
@@ -14,6 +16,11 @@ export const sidebarLinks = [
       route: "/all-users",
       label: "People",
     },
+    {
+      imgURL: "/assets/icons/notification.svg",
+      route: "/notifications",
+      label: "Notifications",
+    },
     {
       imgURL: "/assets/icons/bookmark.svg",
       route: "/saved",
@@ -37,6 +44,11 @@ export const sidebarLinks = [
       route: "/explore",
       label: "Explore",
     },
+    {
+      imgURL: "/assets/icons/notification.svg",
+      route: "/notifications",
+      label: "Alerts",
+    },
     {
       imgURL: "/assets/icons/bookmark.svg",
       route: "/saved",
@@ -47,4 +59,34 @@ export const sidebarLinks = [
       route: "/create-post",
       label: "Create",
     },
-  ];
\ No newline at end of file
+  ];
+export const EXPLORE_PERIODS = [
+    { value: "today", label: "Today", title: "Popular Today", seconds: 24 * 60 * 60 },
+    { value: "week", label: "This week", title: "Popular This Week", seconds: 7 * 24 * 60 * 60 },
+    { value: "all", label: "All time", title: "Popular", seconds: null },
+  ] as const;
+
+export const EXPLORE_MEDIA_TYPES = [
+    { value: "all", label: "All" },
+    { value: "image", label: "Photos" },
+    { value: "video", label: "Videos" },
+  ] as const;
+
+export const SEARCH_TABS = [
+    { value: "top", label: "Top" },
+    { value: "posts", label: "Posts" },
+    { value: "people", label: "People" },
+    { value: "tags", label: "Tags" },
+    { value: "places", label: "Places" },
+  ] as const;
+
+export const DEFAULT_EXPLORE_FILTERS: IExploreFilters = { period: "today", mediaType: "all", tag: "" };
+
+export const MAX_POST_IMAGES = 10;
+// Clips are uploaded whole, so keep them short
+export const MAX_VIDEO_SIZE = 50 * 1024 * 1024;
+// Photos are downscaled and re-encoded to these limits before they are uploaded
+export const MAX_IMAGE_DIMENSION = 2000;
+export const IMAGE_QUALITY = 0.82;
+// Preview widths offered to the browser through srcset
+export const RESPONSIVE_IMAGE_WIDTHS = [320, 640, 1080, MAX_IMAGE_DIMENSION];
@@ -1,46 +1,18 @@
 import { getCurrentUser } from "@/lib/appwrite/api";
 import { IUser } from "@/types";
-import { createContext, useContext, useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
-
-export const INITIAL_USER = {
-    id: "",
-    name: "",
-    username: "",
-    email:"",
-    imageUrl: "",
-    bio: ""
-};
-
-// for logged in user
-const INITIAL_STATE = {
-    user: INITIAL_USER,
-    isPending: false,
-    isAuthenticated: false,
-    setUser: () => {},
-    setIsAuthenticated: () => {},
-    checkAuthUser: async () => false as boolean,
-};
-
-type IContextType = {
-    user: IUser;
-    isPending: boolean;
-    setUser: React.Dispatch<React.SetStateAction<IUser>>;
-    isAuthenticated: boolean;
-    setIsAuthenticated: React.Dispatch<React.SetStateAction<boolean>>;
-    checkAuthUser: () => Promise<boolean>;
-};
-
-const AuthContext = createContext<IContextType>(INITIAL_STATE);
+import { AuthContext, INITIAL_USER } from "./userContext";
 
 export function AuthProvider ({ children } : { children: React.ReactNode }) {
     const [user, setUser] = useState<IUser>(INITIAL_USER);
     const [isPending, setisPending] = useState(false);
     const [isAuthenticated, setIsAuthenticated] = useState(false);
     const navigate = useNavigate();
+    const hasCheckedAuth = useRef(false);
 
 
-    const checkAuthUser = async () => {
+    const checkAuthUser = useCallback(async () => {
         setisPending(true)
         try {
             const currentAccount = await getCurrentUser();
@@ -52,7 +24,7 @@ export function AuthProvider ({ children } : { children: React.ReactNode }) {
                     username: currentAccount.username,
                     email: currentAccount.email,
                     imageUrl: currentAccount.imageUrl,
-                    bio: currentAccount.bio
+                    bio: currentAccount.bio ?? ""
                 });
                 setIsAuthenticated(true);
 
@@ -62,16 +34,20 @@ export function AuthProvider ({ children } : { children: React.ReactNode }) {
             return false;
 
         }
-        catch (error) {
-            console.log(error);
+        catch {
+            // Being logged out is expected here, and anything else leaves the user on the sign in page too
             return false;
         }
         finally {
             setisPending(false);
         }
-    };
+    }, []);
 
+    // Runs once on mount, navigate changes with every route and running again would send users back to sign in
     useEffect(() => {
+        if (hasCheckedAuth.current) return;
+        hasCheckedAuth.current = true;
+
         const cookieFallback = localStorage.getItem("cookieFallback");
         if (
             cookieFallback === "[]" ||
@@ -81,7 +57,7 @@ export function AuthProvider ({ children } : { children: React.ReactNode }) {
             navigate("/sign-in");
         }
         checkAuthUser();
-    }, []);
+    }, [navigate, checkAuthUser]);
 
     const value = {
         user,
@@ -99,5 +75,4 @@ export function AuthProvider ({ children } : { children: React.ReactNode }) {
     )
 }
 
-export default AuthProvider;
-export const useUserContext = () => useContext(AuthContext);
\ No newline at end of file
+export default AuthProvider;
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { IUser } from "@/types";
+import { createContext, useContext } from "react";
+
+// The auth state AuthProvider fills in, kept apart from the provider so its module only exports components
+export const INITIAL_USER = {
+    id: "",
+    name: "",
+    username: "",
+    email:"",
+    imageUrl: "",
+    bio: ""
+};
+
+// for logged in user
+const INITIAL_STATE = {
+    user: INITIAL_USER,
+    isPending: false,
+    isAuthenticated: false,
+    setUser: () => {},
+    setIsAuthenticated: () => {},
+    checkAuthUser: async () => false as boolean,
+};
+
+type IContextType = {
+    user: IUser;
+    isPending: boolean;
+    setUser: React.Dispatch<React.SetStateAction<IUser>>;
+    isAuthenticated: boolean;
+    setIsAuthenticated: React.Dispatch<React.SetStateAction<boolean>>;
+    checkAuthUser: () => Promise<boolean>;
+};
+
+export const AuthContext = createContext<IContextType>(INITIAL_STATE);
+
+export const useUserContext = () => useContext(AuthContext);
@@ -0,0 +1,18 @@
+import { useEffect } from "react";
+
+import { normalizeLegacyTags } from "@/lib/appwrite/api";
+
+const MIGRATED_KEY = "legacyTagsNormalized";
+
+// Lowercases the tags of posts saved before tags were normalized, so their tag pages find them.
+// A browser runs it once after signing in, and again the next session when it failed
+export default function useLegacyTagMigration(userId: string) {
+    useEffect(() => {
+        if (!userId || localStorage.getItem(MIGRATED_KEY)) return;
+
+        normalizeLegacyTags()
+            .then(() => localStorage.setItem(MIGRATED_KEY, String(Date.now())))
+            // Nobody waits on this housekeeping, a migration that fails is tried again next session
+            .catch(() => undefined);
+    }, [userId]);
+}
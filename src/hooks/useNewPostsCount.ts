@@ -0,0 +1,21 @@
+import { useEffect, useState } from "react";
+
+import { backend } from "@/lib/backend";
+import { getRelatedId } from "@/lib/utils";
+
+// Counts posts created by other users since the feed was last refreshed
+export default function useNewPostsCount(userId: string) {
+    const [count, setCount] = useState(0);
+
+    useEffect(() => {
+        if (!userId) return;
+
+        return backend.subscribe(["posts"], ({ action, document }) => {
+            if (action === "create" && getRelatedId(document.creator) !== userId) {
+                setCount((current) => current + 1);
+            }
+        });
+    }, [userId]);
+
+    return { count, reset: () => setCount(0) };
+}
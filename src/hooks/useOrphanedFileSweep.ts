@@ -0,0 +1,21 @@
+import { useEffect } from "react";
+
+import { removeOrphanedFiles } from "@/lib/appwrite/api";
+
+// Each browser sweeps at most once a day, a sweep lists every file, post and user
+const SWEEP_INTERVAL = 24 * 60 * 60 * 1000;
+const LAST_SWEEP_KEY = "lastOrphanedFileSweep";
+
+// Removes the files left behind by rollbacks and cleanups that failed, in the background of a signed-in session
+export default function useOrphanedFileSweep(userId: string) {
+    useEffect(() => {
+        if (!userId) return;
+
+        const lastSweep = Number(localStorage.getItem(LAST_SWEEP_KEY) ?? 0);
+        if (Date.now() - lastSweep < SWEEP_INTERVAL) return;
+
+        localStorage.setItem(LAST_SWEEP_KEY, String(Date.now()));
+        // Nobody waits on this housekeeping, a sweep that fails is simply tried again the next day
+        removeOrphanedFiles().catch(() => undefined);
+    }, [userId]);
+}
@@ -0,0 +1,38 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+
+import { backend } from "@/lib/backend";
+import { mergePostInCache, removePostFromCache } from "@/lib/react-query/cacheUpdates";
+import { getRelatedId } from "@/lib/utils";
+import { QUERY_KEYS } from "@/lib/react-query/queryKeys";
+
+// Keeps cached posts and saves in step with changes made by other users
+export default function useRealtimeSync(userId: string) {
+    const queryClient = useQueryClient();
+
+    useEffect(() => {
+        if (!userId) return;
+
+        return backend.subscribe(["posts", "saves"], ({ collection, action, document }) => {
+            if (collection === "posts") {
+                if (action === "delete") {
+                    return removePostFromCache(queryClient, document.$id);
+                }
+                if (action === "update") {
+                    return mergePostInCache(queryClient, document.$id, document);
+                }
+                return;
+            }
+
+            // A save changes the saved state of its post, and of the current user when it is theirs
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_POST_BY_ID, getRelatedId(document.post)],
+            });
+            if (getRelatedId(document.user) === userId) {
+                queryClient.invalidateQueries({
+                    queryKey: [QUERY_KEYS.GET_CURRENT_USER],
+                });
+            }
+        });
+    }, [queryClient, userId]);
+}
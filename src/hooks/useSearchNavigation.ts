@@ -0,0 +1,43 @@
+import { KeyboardEvent, useEffect, useRef, useState } from "react";
+
+// Moves a highlight through search results with the arrow keys while the search box keeps focus,
+// Enter opens the highlighted result. Results mark themselves with data-search-result, so every
+// tab can lay them out as it likes. A new resetKey, such as another search or tab, starts over.
+export default function useSearchNavigation<T extends HTMLElement>(resetKey: string) {
+    const containerRef = useRef<T>(null);
+    const [active, setActive] = useState({ index: -1, resetKey });
+    const activeIndex = active.resetKey === resetKey ? active.index : -1;
+
+    const getResults = () => [...(containerRef.current?.querySelectorAll<HTMLElement>("[data-search-result]") ?? [])];
+
+    // Results load and page in after the key presses, so the mark is reapplied on every render
+    useEffect(() => {
+        getResults().forEach((result, index) => {
+            result.toggleAttribute("data-active", index === activeIndex);
+        });
+    });
+
+    useEffect(() => {
+        getResults()[activeIndex]?.scrollIntoView({ block: "nearest" });
+    }, [activeIndex]);
+
+    const handleKeyDown = (event: KeyboardEvent<HTMLElement>) => {
+        const results = getResults();
+        if (results.length === 0) return;
+
+        if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+            event.preventDefault();
+            const step = event.key === "ArrowDown" ? 1 : -1;
+            setActive({ index: Math.min(Math.max(activeIndex + step, -1), results.length - 1), resetKey });
+        }
+        else if (event.key === "Enter" && activeIndex >= 0) {
+            event.preventDefault();
+            results[activeIndex]?.click();
+        }
+        else if (event.key === "Escape") {
+            setActive({ index: -1, resetKey });
+        }
+    };
+
+    return { containerRef, handleKeyDown };
+}
@@ -1,34 +1,105 @@
-import { ID, Query } from "appwrite";
-import { INewPost, INewUser, IUpdatePost, IUpdateUser } from "@/types";
-import { account, appwriteConfig, avatars, databases, storage } from "./config";
+import { ID, Models, Query } from "appwrite";
+import { IDocument, IDocumentPage, IExploreFilters, INewComment, INewNotification, INewPost, INewUser, INotificationType, IPost, IPostSummary, IRecentSearch, ISavedCollectionSummary, ISearchSuggestions, ITagCount, ITagPage, IUpdateComment, IUpdatePost, IUpdateUser, IUploadOptions } from "@/types";
+import { extractMentions, getRelatedId, parseTags } from "@/lib/utils";
+import { stripImageMetadata } from "@/lib/imageMetadata";
+import { CommentSchema, FollowSchema, LikeSchema, NotificationSchema, PostSchema, PostSummarySchema, RecentSearchSchema, SavedCollectionSchema, SaveSchema, UserDocumentSchema, ModelSchema, parseDocument, parseDocumentList } from "@/lib/validation";
+import { AppError, isRetryableError, toAppError } from "@/lib/errors";
+import { EXPLORE_PERIODS, MAX_VIDEO_SIZE, RESPONSIVE_IMAGE_WIDTHS } from "@/constants";
+import { computeBlurhash } from "@/lib/imageProcessing";
+import { Saga, runSaga } from "@/lib/saga";
+import { CollectionName, backend } from "../backend";
+
+// Appwrite's maximum page size, for lists that have to be read in one request
+const MAX_LIST_LIMIT = 5000;
+
+// Appwrite accepts at most 100 values in a single Query.equal
+const QUERY_VALUES_LIMIT = 100;
+
+const DEFAULT_PAGE_SIZE = 10;
+
+// Attempts per file before an upload error is reported, waiting twice as long before each retry
+const MAX_UPLOAD_ATTEMPTS = 3;
+const UPLOAD_RETRY_DELAY = 1000;
+
+// Files younger than this may belong to a write that has not saved its document yet
+const ORPHANED_FILE_MIN_AGE = 24 * 60 * 60 * 1000;
+
+// Related tags are counted over the most recent posts of a tag
+const RELATED_TAGS_SAMPLE_SIZE = 100;
+const RELATED_TAGS_LIMIT = 12;
+
+// Related posts are picked from this many of the creator's posts and of those sharing tags or the location
+const RELATED_POSTS_SAMPLE_SIZE = 50;
+
+// Tag search reads the tags of this many recent posts, as tags have no collection to search
+const TAG_SEARCH_SAMPLE_SIZE = 500;
+
+// Matches of each kind offered while a search is typed, locations are collected from this many posts
+const SUGGESTIONS_LIMIT = 4;
+const LOCATION_SUGGESTIONS_SAMPLE_SIZE = 50;
+
+const RECENT_SEARCHES_LIMIT = 10;
+
+// Engagement is worth ten times more for every RANK_DECAY_SECONDS a post is newer, a save counting as much as SAVE_WEIGHT likes
+const RANK_DECAY_SECONDS = 45000;
+const SAVE_WEIGHT = 2;
+
+// Fetching one page of any collection, Appwrite cursors are document ids so they stay strings
+export async function getDocumentsPage<T extends IDocument>({ collection, schema, queries = [], pageParam, limit = DEFAULT_PAGE_SIZE } : {
+    collection: CollectionName;
+    schema: ModelSchema<T>;
+    queries?: string[];
+    pageParam: string | null;
+    limit?: number;
+}): Promise<IDocumentPage<T>> {
+    const pageQueries = [...queries, Query.limit(limit)];
 
-// Creating a new user
-export async function createUserAccount(user: INewUser) {
-    try {
-        const newAccount = await account.create(
-            ID.unique(),
-            user.email,
-            user.password,
-            user.name,
-        );
+    if (pageParam) {
+        pageQueries.push(Query.cursorAfter(pageParam));
+    }
 
-        if (!newAccount) throw Error;
+    try {
+        const page = await backend.collections[collection].list(pageQueries);
+        const lastDocument = page.documents[page.documents.length - 1];
 
-        const avatarUrl = avatars.getInitials(user.name);
+        return {
+            ...parseDocumentList(schema, page),
+            // A short page means there is nothing after it
+            cursor: page.documents.length < limit ? null : lastDocument.$id
+        };
+    }
+    catch (error) {
+        throw toAppError(error);
+    }
+}
 
-        const newUser = await saveUserToDB({
-            accountId: newAccount.$id,
-            name: newAccount.name,
-            email: newAccount.email,
-            username: user.username,
-            imageUrl: avatarUrl
+// Creating a new user
+// An account can't be deleted from the client, so a user document that fails to save isn't undone by
+// removing the account, getCurrentUser creates the missing document the first time the account signs in
+export async function createUserAccount(user: INewUser) {
+    try {
+        return await runSaga(async (saga) => {
+            const newAccount = await saga.step(() => backend.accounts.create(
+                user.email,
+                user.password,
+                user.name,
+            ));
+
+            if (!newAccount) throw Error;
+
+            const avatarUrl = backend.avatars.getInitials(user.name);
+
+            return saga.step(() => saveUserToDB({
+                accountId: newAccount.$id,
+                name: newAccount.name,
+                email: newAccount.email,
+                username: user.username,
+                imageUrl: avatarUrl
+            }));
         });
-
-        return newUser;
     }
     catch (error) {
-        console.log(error);
-        return error;
+        throw toAppError(error);
     }
 }
 
@@ -41,16 +112,11 @@ export async function saveUserToDB(user: {
     username?: string;
 }) {
     try {
-        const newUser = await databases.createDocument(
-            appwriteConfig.databaseId,
-            appwriteConfig.userCollectionId,
-            ID.unique(),
-            user
-        );
-        return newUser;
+        const newUser = await backend.collections.users.create(user);
+        return parseDocument(UserDocumentSchema, newUser);
     }
     catch (error) {
-        console.log(error)
+        throw toAppError(error);
     }
 }
 
@@ -60,186 +126,680 @@ export async function signInAccount(user: {
     password: string
 }) {
     try {
-        const session = await account.createEmailPasswordSession(user.email, user.password);
+        const session = await backend.accounts.createSession(user.email, user.password);
         return session;
     }
     catch (error) {
-        console.log(error);
+        throw toAppError(error);
     }
 }
 
 // Getting the logged in user
 export async function getCurrentUser() {
     try {
-        const currentAccount = await account.get();
+        const currentAccount = await backend.accounts.get();
 
         if (!currentAccount) throw Error;
 
-        const currentUser = await databases.listDocuments(
-            appwriteConfig.databaseId,
-            appwriteConfig.userCollectionId,
-            [Query.equal('accountId', currentAccount.$id)]
-        );
+        const currentUser = await backend.collections.users.list([Query.equal('accountId', currentAccount.$id)]);
 
         if (!currentUser) throw Error;
-        
-        return currentUser.documents[0];
+
+        // Signing up stopped between the account and its user document, the username chosen then is lost
+        if (!currentUser.documents[0]) {
+            return await saveUserToDB({
+                accountId: currentAccount.$id,
+                name: currentAccount.name,
+                email: currentAccount.email,
+                username: currentAccount.email.split("@")[0],
+                imageUrl: backend.avatars.getInitials(currentAccount.name)
+            });
+        }
+
+        return parseDocument(UserDocumentSchema, currentUser.documents[0]);
 
     }
     catch (error) {
-        console.log(error);
+        throw toAppError(error);
     }
 }
 
 // Signing out the current user
 export async function signOutAccount() {
     try {
-        const session = await account.deleteSession("current");
+        const session = await backend.accounts.deleteSession();
         return session;
     }
     catch (error) {
-        console.log(error)
+        throw toAppError(error);
     }
 }
 
 // Creating a new Post
 export async function createPost(post: INewPost) {
     try {
-        const uploadedFile = await uploadFile(post.file[0]);
-        if (!uploadedFile) throw Error;
-
-        // Get file url
-        const fileUrl = getFilePreview(uploadedFile.$id);
-        if (!fileUrl) {
-            await deleteFile(uploadedFile.$id);
-            throw Error;
-        }
+        const uploadOptions = trackUploads(post.video ? [post.video, ...post.file] : post.file, post);
+
+        const newPost = await runSaga(async (saga) => {
+            const video = post.video ? await uploadVideo(saga, post.video, uploadOptions(post.video)) : null;
+
+            const images = await uploadImages(saga, post.file, uploadOptions);
+            if (images.length === 0) throw new AppError("validation", "A post needs at least one image.");
+
+            // Convert tags into the array
+            const tags = parseTags(post.tags);
+
+            // Last chance to cancel before the post goes live
+            post.signal?.throwIfAborted();
+
+            // Saving post to the database
+            return saga.step(() =>
+                backend.collections.posts.create(
+                    {
+                        creator: post.userId,
+                        caption: post.caption,
+                        imageUrl: images[0].imageUrl,
+                        imageId: images[0].imageId,
+                        imageUrls: images.map((image) => image.imageUrl),
+                        imageIds: images.map((image) => image.imageId),
+                        imageBlurhashes: images.map((image) => image.blurhash),
+                        mediaType: video ? "video" : "image",
+                        videoUrl: video?.videoUrl ?? null,
+                        videoId: video?.videoId ?? null,
+                        location: post.location,
+                        tags: tags,
+                        likesCount: 0,
+                        savesCount: 0,
+                        rankScore: getRankScore({ likesCount: 0, savesCount: 0, createdAt: new Date().toISOString() })
+                    }
+                )
+            );
+        });
 
-        // Convert tags into the array
-        const tags = post.tags?.replace(/ /g, "").split(",") || [];
+        await notifyMentions(post.caption, post.userId, newPost.$id);
 
-        // Saving post to the database
-        const newPost = await databases.createDocument(
-            appwriteConfig.databaseId,
-            appwriteConfig.postCollectionId,
-            ID.unique(),
-            {
-                creator: post.userId,
-                caption: post.caption,
-                imageUrl: fileUrl,
-                imageId: uploadedFile.$id,
-                location: post.location,
-                tags: tags
-            }
-        );
-        if(!newPost) {
-            await deleteFile(uploadedFile.$id);
-            throw Error;
-        }
-        return newPost;
+        return parseDocument(PostSummarySchema, newPost);
     }
     catch (error) {
-        console.log(error)
+        throw toAppError(error);
     } 
 }
 
-// Uploading a file
-export async function uploadFile(file: File) {
+// Uploading a file, with any location and device details taken out of photos first.
+// Retries reuse the file id, so a failed chunk is sent again without starting over.
+export async function uploadFile(file: File, { signal, onProgress }: IUploadOptions = {}) {
+    const fileId = ID.unique();
+
     try {
-        const uploadedFile = await storage.createFile(
-            appwriteConfig.storageId,
-            ID.unique(),
-            file
-        );
-        return uploadedFile;
+        const cleanFile = file.type.startsWith("image/") ? await stripImageMetadata(file) : file;
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                signal?.throwIfAborted();
+                const uploadedFile = await backend.files.create(cleanFile, {
+                    fileId,
+                    onProgress: (progress) => {
+                        // Requests already sent cannot be aborted, so cancelling stops at the next chunk
+                        signal?.throwIfAborted();
+                        onProgress?.(progress);
+                    },
+                });
+                signal?.throwIfAborted();
+
+                onProgress?.({ uploaded: cleanFile.size, total: cleanFile.size });
+                return uploadedFile;
+            }
+            catch (error) {
+                if (signal?.aborted || attempt >= MAX_UPLOAD_ATTEMPTS || !isRetryableError(error)) throw error;
+                await new Promise((resolve) => setTimeout(resolve, UPLOAD_RETRY_DELAY * 2 ** (attempt - 1)));
+            }
+        }
     }
     catch (error) {
-        console.log(error)
+        // A cancelled upload can leave stored chunks, or the whole file, behind
+        // The orphaned file sweep removes whatever this cleanup misses
+        if (signal?.aborted) await deleteFile(fileId).catch(() => undefined);
+        throw toAppError(error);
     }
 }
 
+// Combines the progress of several uploads into one, weighted by file size
+function trackUploads(files: File[], { signal, onProgress }: IUploadOptions) {
+    const total = files.reduce((sum, file) => sum + file.size, 0);
+    const uploadedBytes = new Map<File, number>();
+
+    return (file: File): IUploadOptions => ({
+        signal,
+        onProgress: (progress) => {
+            uploadedBytes.set(file, progress.total ? (progress.uploaded / progress.total) * file.size : file.size);
+
+            const uploaded = [...uploadedBytes.values()].reduce((sum, bytes) => sum + bytes, 0);
+            onProgress?.({ uploaded: Math.round(uploaded), total });
+        },
+    });
+}
+
 // Getting a preview of a file
 export function getFilePreview(fileId: string) {
     try {
-        const fileUrl = storage.getFilePreview(
-            appwriteConfig.storageId,
-            fileId,
-            2000,
-            2000,
-            undefined,
-            100
-        );
+        const fileUrl = backend.files.getPreview(fileId);
+        if (!fileUrl) throw Error;
+        return fileUrl;
+    }
+    catch (error) {
+        throw toAppError(error);
+    }
+}
+
+// Getting previews of an image at several widths, in the srcset format
+export function getFilePreviewSrcSet(fileId: string) {
+    try {
+        return RESPONSIVE_IMAGE_WIDTHS
+            .map((width) => `${backend.files.getPreview(fileId, width)} ${width}w`)
+            .join(", ");
+    }
+    catch {
+        // Images whose file is gone still have their stored url to fall back on
+        return undefined;
+    }
+}
+
+// Getting the original file, for videos which have no preview
+export function getFileView(fileId: string) {
+    try {
+        const fileUrl = backend.files.getView(fileId);
         if (!fileUrl) throw Error;
         return fileUrl;
     }
     catch (error) {
-        console.log(error);
+        throw toAppError(error);
     }
 }
 
 // Deleting a file
 export async function deleteFile(fileId: string) {
     try {
-        await storage.deleteFile(appwriteConfig.storageId, fileId);
+        await backend.files.delete(fileId);
         return { status : "ok"};
     }
     catch (error) {
-        console.log(error);
+        throw toAppError(error);
     }
 }
 
-// Like a post
-export async function likePost(postId: string, likesArray: string[]) {
+// Uploading images in order with their placeholders, each upload is undone if the write fails later on
+async function uploadImages(saga: Saga, files: File[], uploadOptions: (file: File) => IUploadOptions = () => ({})) {
+    // Settling every upload first, so none finishes after the saga has been rolled back
+    const [results, blurhashes] = await Promise.all([
+        Promise.allSettled(files.map((file) =>
+            saga.step(() => uploadFile(file, uploadOptions(file)), (uploadedFile) => deleteFile(uploadedFile.$id))
+        )),
+        Promise.all(files.map(computeBlurhash)),
+    ]);
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === "rejected");
+    if (failure) throw failure.reason;
+
+    return results.flatMap((result, index) => (result.status === "fulfilled" ? [{
+        imageId: result.value.$id,
+        imageUrl: getFilePreview(result.value.$id).toString(),
+        blurhash: blurhashes[index] ?? ""
+    }] : []));
+}
+
+// Uploading a video clip, served as the original file since previews only cover images
+async function uploadVideo(saga: Saga, file: File, uploadOptions?: IUploadOptions) {
+    if (!file.type.startsWith("video/") || file.size > MAX_VIDEO_SIZE) {
+        throw new AppError("validation", `Videos must be MP4 or WebM files under ${MAX_VIDEO_SIZE / 1024 / 1024} MB.`);
+    }
+
+    const uploadedFile = await saga.step(() => uploadFile(file, uploadOptions), (uploaded) => deleteFile(uploaded.$id));
+    return {
+        videoId: uploadedFile.$id,
+        videoUrl: getFileView(uploadedFile.$id).toString()
+    };
+}
+
+// Deleting several files, every deletion is attempted before the first failure is reported
+async function deleteFiles(fileIds: string[]) {
+    const results = await Promise.allSettled(fileIds.map((fileId) => deleteFile(fileId)));
+
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === "rejected");
+    if (failure) throw failure.reason;
+}
+
+// Reading every page of a list, following the cursor until a page comes back short
+async function listAll<T extends { $id: string }>(list: (queries: string[]) => Promise<T[]>) {
+    const items: T[] = [];
+
+    for (;;) {
+        const lastId = items[items.length - 1]?.$id;
+        const page = await list(lastId
+            ? [Query.limit(MAX_LIST_LIMIT), Query.cursorAfter(lastId)]
+            : [Query.limit(MAX_LIST_LIMIT)]);
+
+        items.push(...page);
+        if (page.length < MAX_LIST_LIMIT) return items;
+    }
+}
+
+// Removing stored files that no post or user points at, such as those left by a rollback that failed halfway
+export async function removeOrphanedFiles() {
     try {
-        const updatedPost = await databases.updateDocument(
-            appwriteConfig.databaseId,
-            appwriteConfig.postCollectionId,
-            postId, {
-                likes: likesArray
-            }
+        const [files, posts, users] = await Promise.all([
+            listAll(async (queries) => (await backend.files.list(queries)).files),
+            listAll(async (queries) => (await backend.collections.posts.list(queries)).documents),
+            listAll(async (queries) => (await backend.collections.users.list(queries)).documents),
+        ]);
+
+        const referencedIds = new Set(
+            [...posts, ...users]
+                .flatMap((document) => [document.imageId, document.videoId, ...(Array.isArray(document.imageIds) ? document.imageIds : [])])
+                .filter((fileId): fileId is string => typeof fileId === "string")
         );
-        if (!updatedPost) throw Error;
-        return updatedPost;
+
+        const cutoff = Date.now() - ORPHANED_FILE_MIN_AGE;
+        const orphanedIds = files
+            .filter((file) => !referencedIds.has(file.$id) && new Date(file.$createdAt).getTime() < cutoff)
+            .map((file) => file.$id);
+
+        // A file that fails to go is swept again next time
+        const results = await Promise.allSettled(orphanedIds.map((fileId) => deleteFile(fileId)));
+
+        return { deletedIds: orphanedIds.filter((_, index) => results[index].status === "fulfilled") };
+    }
+    catch (error) {
+        throw toAppError(error);
+    }
+}
+
+// Tags were saved as typed before parseTags lowercased them, and tag queries match them exactly, so posts from
+// back then are rewritten with their tags normalized the way new ones are
+export async function normalizeLegacyTags() {
+    try {
+        const posts = await listAll(async (queries) => (await backend.collections.posts.list(queries)).documents);
+
+        const updates = posts.flatMap((post) => {
+            const tags: string[] = Array.isArray(post.tags) ? post.tags : [];
+            const normalizedTags = parseTags(tags.join(","));
+            const isNormalized = normalizedTags.length === tags.length && normalizedTags.every((tag, index) => tag === tags[index]);
+
+            return isNormalized ? [] : [{ postId: post.$id, tags: normalizedTags }];
+        });
+
+        await Promise.all(updates.map(({ postId, tags }) => backend.collections.posts.update(postId, { tags })));
+
+        return { updatedIds: updates.map(({ postId }) => postId) };
+    }
+    catch (error) {
+        throw toAppError(error);
+    }
+}
+
+// The record a unique index kept a repeated create from adding, so liking or following twice is not an error
+async function findExistingRecord(collection: CollectionName, queries: string[]) {
+    try {
+        const records = await backend.collections[collection].list([...queries, Query.limit(1)]);
+        return records.documents[0];
+    }
+    catch {
+        return undefined;
+    }
+}
+
+// Like a post, the unique index on (userId, postId) rejects a second like from the same user
+export async function likePost(postId: string, userId: string) {
+    try {
+        const like = await runSaga(async (saga) => {
+            const like = await saga.step(
+                () => backend.collections.likes.create(
+                    {
+                        userId: userId,
+                        postId: postId
+                    }
+                ),
+                // A like the count never picked up would be invisible but still block liking again
+                (like) => backend.collections.likes.delete(like.$id)
+            );
+            if (!like) throw Error;
+
+            await saga.step(() => syncEngagement(postId));
+            return like;
+        });
+
+        await notifyPostCreator(postId, userId, "like");
+
+        return parseDocument(LikeSchema, like);
     }
     catch(error) {
-        console.log(error)
+        if (toAppError(error).kind === "conflict") {
+            const existingLike = await findExistingRecord("likes", [Query.equal("userId", userId), Query.equal("postId", postId)]);
+            if (existingLike) return parseDocument(LikeSchema, existingLike);
+        }
+        throw toAppError(error);
     }
 }
 
-// Save a post
-export async function savePost(userId: string, postId: string) {
+// Unlike a post
+export async function unlikePost(postId: string, userId: string) {
     try {
-        const updatedPost = await databases.createDocument(
-            appwriteConfig.databaseId,
-            appwriteConfig.savesCollectionId,
-            ID.unique(), {
-                user: userId,
-                post: postId
-            }
-        );
+        await runSaga(async (saga) => {
+            const likes = await backend.collections.likes.list([Query.equal("userId", userId), Query.equal("postId", postId)]);
 
-        if (!updatedPost) throw Error;
-        return updatedPost;
+            await Promise.all(
+                likes.documents.map((like) => saga.step(
+                    () => backend.collections.likes.delete(like.$id),
+                    () => backend.collections.likes.create({ userId, postId }, like.$id)
+                ))
+            );
+
+            await saga.step(() => syncEngagement(postId));
+        });
+
+        return { status: "Ok" };
     }
     catch(error) {
-        console.log(error)
+        throw toAppError(error);
+    }
+}
+
+// Ranking by engagement that decays with age. Rather than shrinking every score as time passes,
+// newer posts start higher: the score grows by one for every RANK_DECAY_SECONDS of age and
+// engagement adds its logarithm, so sorting by the stored score never goes stale.
+function getRankScore({ likesCount, savesCount, createdAt } : { likesCount: number; savesCount: number; createdAt: string }) {
+    const engagement = likesCount + SAVE_WEIGHT * savesCount;
+    return Math.log10(1 + engagement) + new Date(createdAt).getTime() / 1000 / RANK_DECAY_SECONDS;
+}
+
+// Likes from before the likes collection lived in a relationship between posts and users. They move into
+// like records lazily, whenever the post is recounted or one of its likers loads their likes, and the
+// relationship is emptied so a like taken back later isn't brought back by the next migration
+async function migrateLegacyLikes(post: { $id: string; likes?: unknown }) {
+    const userIds = Array.isArray(post.likes)
+        ? post.likes.map(getRelatedId).filter((userId): userId is string => !!userId)
+        : [];
+    if (userIds.length === 0) return false;
+
+    await Promise.all(userIds.map(async (userId) => {
+        try {
+            await backend.collections.likes.create({ userId, postId: post.$id });
+        }
+        catch (error) {
+            // Liked again since, the record is already there
+            if (toAppError(error).kind !== "conflict") throw error;
+        }
+    }));
+    await backend.collections.posts.update(post.$id, { likes: [] });
+
+    return true;
+}
+
+// Recounting the likes and saves of a post, so concurrent likes can never overwrite each other
+async function syncEngagement(postId: string) {
+    const post = await backend.collections.posts.get(postId);
+    await migrateLegacyLikes(post);
+
+    const likes = await backend.collections.likes.list([Query.equal("postId", postId), Query.limit(1)]);
+    // Saves are a relationship of the post, so they come with it
+    const savesCount = Array.isArray(post.save) ? post.save.length : 0;
+
+    await backend.collections.posts.update(
+        postId, {
+            likesCount: likes.total,
+            savesCount,
+            rankScore: getRankScore({ likesCount: likes.total, savesCount, createdAt: post.$createdAt })
+        }
+    );
+}
+
+// Getting the like records of a user
+export async function getUserLikes(userId?: string) {
+    if (!userId) return;
+
+    try {
+        // Posts this user liked before the likes collection are migrated first, so their likes show up below
+        const user = await backend.collections.users.get(userId);
+        if (Array.isArray(user.liked)) {
+            await Promise.all(
+                user.liked.map(getRelatedId).map(async (postId) => {
+                    if (postId && await migrateLegacyLikes(await backend.collections.posts.get(postId))) {
+                        await syncEngagement(postId);
+                    }
+                })
+            );
+        }
+
+        // Paging through every like, a heavy user's likes go well past a single page
+        const likes = await listAll(async (queries) =>
+            (await backend.collections.likes.list([Query.equal("userId", userId), Query.orderDesc("$createdAt"), ...queries])).documents
+        );
+
+        return parseDocumentList(LikeSchema, { total: likes.length, documents: likes });
+    }
+    catch (error) {
+        throw toAppError(error);
+    }
+}
+
+// Getting the posts a user liked, most recently liked first
+export async function getLikedPosts({ userId, pageParam } : { userId?: string; pageParam: string | null }) {
+    if (!userId) return;
+
+    const likes = await getDocumentsPage({
+        collection: "likes",
+        schema: LikeSchema,
+        queries: [Query.equal("userId", userId), Query.orderDesc("$createdAt")],
+        pageParam
+    });
+    const posts = await getPostsByIds(likes.documents.map((like) => like.postId));
+
+    return { ...likes, documents: posts };
+}
+
+// Getting the posts a user saved, most recently saved first
+export async function getSavedPosts({ userId, collectionId, pageParam } : { userId?: string; collectionId?: string; pageParam: string | null }) {
+    if (!userId) return;
+
+    if (!pageParam) {
+        try {
+            await migrateLegacySaves(userId);
+        }
+        catch (error) {
+            throw toAppError(error);
+        }
+    }
+
+    const queries = [Query.equal("userId", userId), Query.orderDesc("$createdAt")];
+    if (collectionId) {
+        queries.push(Query.equal("collectionId", collectionId));
+    }
+
+    const saves = await getDocumentsPage({
+        collection: "saves",
+        schema: SaveSchema,
+        queries,
+        pageParam
+    });
+    const posts = await getPostsByIds(saves.documents.flatMap((save) => (save.post ? [save.post.$id] : [])));
+
+    return { ...saves, documents: posts };
+}
+
+// Saves from before userId was copied onto them are only reachable through the user relationship, which Appwrite
+// cannot filter on. They get their copy lazily, whenever their user loads saved posts or saved collections
+async function migrateLegacySaves(userId: string) {
+    const user = await backend.collections.users.get(userId);
+    const saves: unknown[] = Array.isArray(user.save) ? user.save : [];
+    const legacySaveIds = saves.flatMap((save) =>
+        save && typeof save === "object" && "$id" in save && !("userId" in save && save.userId) ? [getRelatedId(save)] : []
+    );
+
+    await Promise.all(
+        legacySaveIds.flatMap((saveId) => (saveId ? [backend.collections.saves.update(saveId, { userId })] : []))
+    );
+}
+
+// Getting posts by their ids, in the order of the ids
+async function getPostsByIds(postIds: string[]) {
+    if (postIds.length === 0) return [];
+
+    try {
+        const posts = await backend.collections.posts.list([
+            Query.equal("$id", postIds.slice(0, QUERY_VALUES_LIMIT)),
+            Query.limit(QUERY_VALUES_LIMIT)
+        ]);
+
+        return parseDocumentList(PostSchema, posts).documents
+            .sort((a, b) => postIds.indexOf(a.$id) - postIds.indexOf(b.$id));
+    }
+    catch (error) {
+        throw toAppError(error);
+    }
+}
+
+// Save a post, optionally into one of the user's saved collections
+export async function savePost(userId: string, postId: string, collectionId: string | null = null) {
+    try {
+        const savedRecord = await runSaga(async (saga) => {
+            const savedRecord = await saga.step(
+                () => backend.collections.saves.create(
+                    {
+                        userId: userId,
+                        user: userId,
+                        post: postId,
+                        collectionId: collectionId
+                    }
+                ),
+                (savedRecord) => backend.collections.saves.delete(savedRecord.$id)
+            );
+            if (!savedRecord) throw Error;
+
+            await saga.step(() => syncEngagement(postId));
+            return savedRecord;
+        });
+
+        await notifyPostCreator(postId, userId, "save");
+
+        return parseDocument(SaveSchema, savedRecord);
+    }
+    catch (error) {
+        throw toAppError(error);
     }
 }
 
 // Delete a post
 export async function deleteSavedPost(savedRecordId: string) {
     try {
-        const statusCode = await databases.deleteDocument(
-            appwriteConfig.databaseId,
-            appwriteConfig.savesCollectionId,
-            savedRecordId
-        );
+        const savedRecord = parseDocument(SaveSchema, await backend.collections.saves.get(savedRecordId));
 
+        const statusCode = await backend.collections.saves.delete(savedRecordId);
         if (!statusCode) throw Error;
+
+        // The save is gone either way, a stale count only affects the ranking until the next sync
+        if (savedRecord.post) {
+            await syncEngagement(savedRecord.post.$id).catch(() => undefined);
+        }
+
         return { status: "Ok" };
     }
-    catch(error) {
-        console.log(error)
+    catch (error) {
+        throw toAppError(error);
+    }
+}
+
+// Moving a saved post into another saved collection, or out of them all with null
+export async function moveSavedPost(savedRecordId: string, collectionId: string | null) {
+    try {
+        const savedRecord = await backend.collections.saves.update(savedRecordId, { collectionId });
+
+        return parseDocument(SaveSchema, savedRecord);
+    }
+    catch (error) {
+        throw toAppError(error);
+    }
+}
+
+// The saved collections of a user, oldest first, each with its count and cover
+export async function getSavedCollections(userId?: string): Promise<ISavedCollectionSummary[]> {
+    if (!userId) return [];
+
+    try {
+        await migrateLegacySaves(userId);
+
+        const [collections, saves] = await Promise.all([
+            backend.collections.savedCollections.list([
+                Query.equal("userId", userId),
+                Query.orderAsc("$createdAt"),
+                Query.limit(MAX_LIST_LIMIT)
+            ]),
+            backend.collections.saves.list([
+                Query.equal("userId", userId),
+                Query.isNotNull("collectionId"),
+                Query.orderDesc("$createdAt"),
+                Query.limit(MAX_LIST_LIMIT)
+            ]),
+        ]);
+
+        const savedRecords = parseDocumentList(SaveSchema, saves).documents;
+
+        return parseDocumentList(SavedCollectionSchema, collections).documents.map((collection) => {
+            const collectionSaves = savedRecords.filter((save) => save.collectionId === collection.$id);
+            return {
+                ...collection,
+                savesCount: collectionSaves.length,
+                cover: collectionSaves.find((save) => save.post)?.post,
+            };
+        });
+    }
+    catch (error) {
+        throw toAppError(error);
+    }
+}
+
+export async function getSavedCollectionById(collectionId?: string) {
+    if (!collectionId) throw Error;
+
+    try {
+        const collection = await backend.collections.savedCollections.get(collectionId);
+
+        return parseDocument(SavedCollectionSchema, collection);
+    }
+    catch (error) {
+        throw toAppError(error);
+    }
+}
+
+// Creating a named saved collection
+export async function createSavedCollection({ userId, name } : { userId: string; name: string }) {
+    try {
+        const collection = await backend.collections.savedCollections.create({ userId, name: name.trim() });
+
+        return parseDocument(SavedCollectionSchema, collection);
+    }
+    catch (error) {
+        throw toAppError(error);
+    }
+}
+
+// Deleting a saved collection, its posts stay saved outside of any collection
+export async function deleteSavedCollection(collectionId: string) {
+    try {
+        await runSaga(async (saga) => {
+            const saves = await listAll(async (queries) =>
+                (await backend.collections.saves.list([Query.equal("collectionId", collectionId), ...queries])).documents
+            );
+
+            await Promise.all(saves.map((save) => saga.step(
+                () => backend.collections.saves.update(save.$id, { collectionId: null }),
+                () => backend.collections.saves.update(save.$id, { collectionId })
+            )));
+
+            await saga.step(() => backend.collections.savedCollections.delete(collectionId));
+        });
+
+        return { status: "Ok" };
+    }
+    catch (error) {
+        throw toAppError(error);
     }
 }
 
@@ -248,315 +808,978 @@ export async function getPostById(postId?: string) {
     if (!postId) throw Error;
 
     try {
-        const post = await databases.getDocument(
-            appwriteConfig.databaseId,
-            appwriteConfig.postCollectionId,
-            postId
-        );
+        const post = await backend.collections.posts.get(postId);
 
         if (!post) throw Error;
 
-        return post;
+        return parseDocument(PostSchema, post);
     }
     catch (error) {
-        console.log(error);
+        throw toAppError(error);
     }
 }
 
 // Updating any post
 export async function updatePost(post: IUpdatePost) {
-    const hasFileToUpdate = post.file.length > 0;
-
     try {
-        let image = {
-            imageUrl: post.imageUrl,
-            imageId: post.imageId,
-        }
-        if (hasFileToUpdate) {
-            const uploadedFile = await uploadFile(post.file[0]);
-            
-            if(!uploadedFile) throw Error;
-
-            const fileUrl = getFilePreview(uploadedFile.$id);
-            if(!fileUrl) {
-                await deleteFile(uploadedFile.$id);
-                throw Error;
-            }
-            image = {...image, imageUrl: fileUrl, imageId: uploadedFile.$id};
-        }
+        // A video post keeps its poster frame as its only image
+        const formImages = post.video ? [post.video.poster] : post.images;
+        const newFiles = formImages.flatMap((image) => (image.file ? [image.file] : []));
+        const uploadOptions = trackUploads(post.video?.file ? [post.video.file, ...newFiles] : newFiles, post);
+
+        const updatedPost = await runSaga(async (saga) => {
+            const uploadedVideo = post.video?.file ? await uploadVideo(saga, post.video.file, uploadOptions(post.video.file)) : null;
+            const uploadedImages = await uploadImages(saga, newFiles, uploadOptions);
+
+            // New files take the place they were given in the form
+            let nextUpload = 0;
+            const images = formImages.map((image) =>
+                image.file
+                    ? uploadedImages[nextUpload++]
+                    : { imageId: image.imageId ?? "", imageUrl: image.url, blurhash: image.blurhash ?? "" }
+            );
+            if (images.length === 0) throw new AppError("validation", "A post needs at least one image.");
+
+            const video = uploadedVideo ?? (post.video?.videoId ? { videoId: post.video.videoId, videoUrl: post.video.url } : null);
+
+            const tags = parseTags(post.tags);
+
+            post.signal?.throwIfAborted();
+            const updatedPost = await saga.step(() =>
+                backend.collections.posts.update(
+                    post.postId,
+                    {
+                        caption: post.caption,
+                        imageUrl: images[0].imageUrl,
+                        imageId: images[0].imageId,
+                        imageUrls: images.map((image) => image.imageUrl),
+                        imageIds: images.map((image) => image.imageId),
+                        imageBlurhashes: images.map((image) => image.blurhash),
+                        mediaType: video ? "video" : "image",
+                        videoUrl: video?.videoUrl ?? null,
+                        videoId: video?.videoId ?? null,
+                        location: post.location,
+                        tags: tags,
+                    }
+                )
+            );
+
+            // Removing the files taken out of the post
+            const keptIds = [...images.map((image) => image.imageId), video?.videoId];
+            const previousIds = post.videoId ? [...post.imageIds, post.videoId] : post.imageIds;
+            saga.onComplete(() => deleteFiles(previousIds.filter((fileId) => !keptIds.includes(fileId))));
+
+            return updatedPost;
+        });
 
-        const tags = post.tags?.replace(/ /g, "").split(",") || [];
+        // Only users the edit added a mention of hear about it
+        const creatorId = getRelatedId(updatedPost.creator);
+        if (creatorId) await notifyMentions(post.caption, creatorId, post.postId, post.previousCaption);
 
-        const updatedPost = await databases.updateDocument(
-            appwriteConfig.databaseId,
-            appwriteConfig.postCollectionId,
-            post.postId,
-            {
-                caption: post.caption,
-                imageUrl: image.imageUrl,
-                imageId: image.imageId,
-                location: post.location,
-                tags: tags,
-            }
-        );
-        if(!updatedPost) {
-            if(hasFileToUpdate) {
-                await deleteFile(image.imageId)
-            }
-            throw Error;
-        }
-        if (hasFileToUpdate) {
-            await deleteFile(post.imageId);
-        }
-        return updatedPost;
+        return parseDocument(PostSummarySchema, updatedPost);
     }
     catch (error) {
-        console.log(error)
+        throw toAppError(error);
     } 
 }
 
 // Deleting any post
-export async function deletePost(postId?: string, imageId?: string) {
-    if (!postId || !imageId) return;
+export async function deletePost(postId?: string, imageIds: string[] = [], videoId?: string | null) {
+    if (!postId) return;
 
     try {
-        const statusCode = await databases.deleteDocument(
-            appwriteConfig.databaseId,
-            appwriteConfig.postCollectionId,
-            postId
-        );
-        if(!statusCode) throw Error;
-        
-        await deleteFile(imageId);
+        await runSaga(async (saga) => {
+            // Once the document is gone the post is deleted, whatever happens to its files, likes, comments and notifications
+            const statusCode = await saga.step(() => backend.collections.posts.delete(postId));
+            if(!statusCode) throw Error;
+
+            saga.onComplete(() => deleteFiles(videoId ? [...imageIds, videoId] : imageIds));
+
+            // Like records only hold the post id, so nothing cascades to them
+            saga.onComplete(async () => {
+                const likes = await listAll(async (queries) =>
+                    (await backend.collections.likes.list([Query.equal("postId", postId), ...queries])).documents
+                );
+                await Promise.all(likes.map((like) => backend.collections.likes.delete(like.$id)));
+            });
+
+            // Comments and notifications about the post only hold its id too
+            saga.onComplete(async () => {
+                const comments = await listAll(async (queries) =>
+                    (await backend.collections.comments.list([Query.equal("postId", postId), ...queries])).documents
+                );
+                await Promise.all(comments.map((comment) => backend.collections.comments.delete(comment.$id)));
+            });
+
+            saga.onComplete(async () => {
+                const notifications = await listAll(async (queries) =>
+                    (await backend.collections.notifications.list([Query.equal("postId", postId), ...queries])).documents
+                );
+                await Promise.all(notifications.map((notification) => backend.collections.notifications.delete(notification.$id)));
+            });
+        });
 
         return { status: "Ok" };
     }
     catch (error) {
-        console.log(error);
+        throw toAppError(error);
+    }
+}
+
+// Explore posts, ranked by their decaying engagement score and narrowed by the filters
+export async function getInfinitePosts({ pageParam, filters } : { pageParam: string | null; filters: IExploreFilters }) {
+    // Posts without a score yet sort last, newest first among themselves
+    const queries = [Query.orderDesc("rankScore"), Query.orderDesc("$createdAt")];
+
+    const seconds = EXPLORE_PERIODS.find((period) => period.value === filters.period)?.seconds;
+    if (seconds) {
+        queries.push(Query.greaterThan("$createdAt", new Date(Date.now() - seconds * 1000).toISOString()));
+    }
+
+    if (filters.mediaType === "video") {
+        queries.push(Query.equal("mediaType", "video"));
+    }
+    else if (filters.mediaType === "image") {
+        // Posts from before videos have no media type and are all images
+        queries.push(Query.or([Query.equal("mediaType", "image"), Query.isNull("mediaType")]));
     }
+
+    if (filters.tag) {
+        queries.push(Query.contains("tags", filters.tag));
+    }
+
+    return getDocumentsPage({
+        collection: "posts",
+        schema: PostSchema,
+        queries,
+        pageParam,
+        limit: 9
+    });
 }
 
-// Infinite Posts
-// export async function getInfinitePosts({ pageParam } : { pageParam: number }) {
-//     const queries: any[] = [Query.orderDesc("$updatedAt"), Query.limit(9)];
-    
-//     if (pageParam) {
-//         queries.push(Query.cursorAfter(pageParam.toString()))
-//     }
+// Posts matching a search in their caption, location or tags, best ranked first
+export async function searchTopPosts({ searchTerm, pageParam } : { searchTerm: string; pageParam: string | null }) {
+    return getDocumentsPage({
+        collection: "posts",
+        schema: PostSchema,
+        queries: [
+            Query.or([
+                Query.search("caption", searchTerm),
+                Query.search("location", searchTerm),
+                Query.contains("tags", parseTags(searchTerm)[0] ?? searchTerm)
+            ]),
+            Query.orderDesc("rankScore"),
+            Query.orderDesc("$createdAt")
+        ],
+        pageParam
+    });
+}
 
-//     try {
-//         const posts = await databases.listDocuments(
-//             appwriteConfig.databaseId,
-//             appwriteConfig.postCollectionId,
-//             queries
-//         );
+// Search Posts
+export async function searchPosts({ searchTerm, pageParam } : { searchTerm: string; pageParam: string | null }) {
+    return getDocumentsPage({
+        collection: "posts",
+        schema: PostSchema,
+        queries: [Query.search("caption", searchTerm), Query.orderDesc("$createdAt")],
+        pageParam
+    });
+}
 
-//         if (!posts) throw Error;
+// Posts whose location matches a search, newest first
+export async function searchPlaces({ searchTerm, pageParam } : { searchTerm: string; pageParam: string | null }) {
+    return getDocumentsPage({
+        collection: "posts",
+        schema: PostSchema,
+        queries: [Query.search("location", searchTerm), Query.orderDesc("$createdAt")],
+        pageParam
+    });
+}
 
-//         return posts;
-//     }
-//     catch (error) {
-//         console.log(error)
-//     }
-// }
+// Users whose name or username matches a search
+export async function searchUsers({ searchTerm, pageParam, limit } : { searchTerm: string; pageParam: string | null; limit?: number }) {
+    return getDocumentsPage({
+        collection: "users",
+        schema: UserDocumentSchema,
+        queries: [
+            Query.or([Query.search("name", searchTerm), Query.search("username", searchTerm)]),
+            Query.orderAsc("name")
+        ],
+        pageParam,
+        limit
+    });
+}
 
-export async function getInfinitePosts({ pageParam } : { pageParam: number }) {
-    const queries: string[] = [Query.orderDesc("$updatedAt"), Query.limit(9)];
-    
-    if (pageParam) {
-        queries.push(Query.cursorAfter(pageParam.toString()))
+// Tags containing a search, those starting with it first and then the most used
+export async function searchTags({ searchTerm, pageParam } : { searchTerm: string; pageParam: string | null }): Promise<ITagPage> {
+    const [term] = parseTags(searchTerm);
+    if (!term) return { total: 0, tags: [], cursor: null };
+
+    try {
+        const posts = await backend.collections.posts.list([Query.orderDesc("$createdAt"), Query.limit(TAG_SEARCH_SAMPLE_SIZE)]);
+        const matches = countTags(parseDocumentList(PostSchema, posts).documents)
+            .filter(({ tag }) => tag.includes(term))
+            .sort((a, b) => Number(b.tag.startsWith(term)) - Number(a.tag.startsWith(term)));
+
+        const offset = Number(pageParam ?? 0);
+        const end = offset + DEFAULT_PAGE_SIZE;
+
+        return {
+            total: matches.length,
+            tags: matches.slice(offset, end),
+            cursor: end < matches.length ? String(end) : null
+        };
+    }
+    catch (error) {
+        throw toAppError(error);
     }
+}
+
+// Posts carrying a tag, newest first
+export async function getTagPosts({ tag, pageParam } : { tag?: string; pageParam: string | null }) {
+    if (!tag) return;
+
+    return getDocumentsPage({
+        collection: "posts",
+        schema: PostSchema,
+        queries: [Query.contains("tags", tag), Query.orderDesc("$createdAt")],
+        pageParam
+    });
+}
+
+// How many of the posts carry each of their tags, the most common first
+function countTags(posts: IPostSummary[]): ITagCount[] {
+    const counts = new Map<string, number>();
+    posts.forEach((post) => {
+        new Set(post.tags).forEach((tag) => {
+            if (tag) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+        });
+    });
+
+    return [...counts]
+        .sort(([tagA, countA], [tagB, countB]) => countB - countA || tagA.localeCompare(tagB))
+        .map(([tag, postsCount]) => ({ tag, postsCount }));
+}
+
+// Tags used alongside a tag, the most common first
+export async function getRelatedTags(tag?: string) {
+    if (!tag) return;
 
     try {
-        const posts = await databases.listDocuments(
-            appwriteConfig.databaseId,
-            appwriteConfig.postCollectionId,
-            queries
+        const posts = await backend.collections.posts.list([
+            Query.contains("tags", tag),
+            Query.orderDesc("$createdAt"),
+            Query.limit(RELATED_TAGS_SAMPLE_SIZE)
+        ]);
+
+        return countTags(parseDocumentList(PostSchema, posts).documents)
+            .filter((related) => related.tag !== tag)
+            .slice(0, RELATED_TAGS_LIMIT);
+    }
+    catch (error) {
+        throw toAppError(error);
+    }
+}
+
+// Posts by the same creator or sharing tags or the location with a post, those with the most in common and
+// the most engagement first. They are ranked on the fly, so their pages carry an offset as cursor
+export async function getRelatedPosts({ post, pageParam } : { post?: IPost; pageParam: string | null }): Promise<IDocumentPage<IPost> | undefined> {
+    if (!post) return;
+
+    const sample = (queries: string[]) =>
+        backend.collections.posts.list([...queries, Query.orderDesc("rankScore"), Query.limit(RELATED_POSTS_SAMPLE_SIZE)]);
+
+    try {
+        const lists = await Promise.all([
+            sample([Query.equal("creator", post.creator.$id)]),
+            post.tags.length > 0 ? sample([Query.contains("tags", post.tags)]) : undefined,
+            post.location ? sample([Query.equal("location", post.location)]) : undefined,
+        ]);
+
+        const candidates = new Map<string, IPost>();
+        lists.forEach((list) => {
+            if (!list) return;
+            parseDocumentList(PostSchema, list).documents.forEach((candidate) => {
+                if (candidate.$id !== post.$id) candidates.set(candidate.$id, candidate);
+            });
+        });
+
+        const overlap = (candidate: IPost) =>
+            candidate.tags.filter((tag) => post.tags.includes(tag)).length +
+            Number(!!post.location && candidate.location === post.location) +
+            Number(candidate.creator.$id === post.creator.$id);
+        const engagement = (candidate: IPost) => candidate.likesCount + SAVE_WEIGHT * candidate.savesCount;
+
+        const ranked = [...candidates.values()].sort((a, b) =>
+            overlap(b) - overlap(a) || engagement(b) - engagement(a) || b.$createdAt.localeCompare(a.$createdAt)
         );
 
-        if (!posts) throw Error;
+        const offset = Number(pageParam ?? 0);
+        const end = offset + DEFAULT_PAGE_SIZE;
 
-        return posts;
+        return {
+            total: ranked.length,
+            documents: ranked.slice(offset, end),
+            cursor: end < ranked.length ? String(end) : null
+        };
     }
     catch (error) {
-        console.log(error)
+        throw toAppError(error);
     }
 }
 
-// Search Posts
-export async function searchPosts(searchTerm: string) {
+// A few users, tags and locations matching what is being typed
+export async function getSearchSuggestions(searchTerm: string): Promise<ISearchSuggestions> {
     try {
-        const posts = await databases.listDocuments(
-            appwriteConfig.databaseId,
-            appwriteConfig.postCollectionId,
-            [Query.search("caption", searchTerm)]
-        );
+        const [users, tags, posts] = await Promise.all([
+            searchUsers({ searchTerm, pageParam: null, limit: SUGGESTIONS_LIMIT }),
+            searchTags({ searchTerm, pageParam: null }),
+            backend.collections.posts.list([
+                Query.search("location", searchTerm),
+                Query.orderDesc("$createdAt"),
+                Query.limit(LOCATION_SUGGESTIONS_SAMPLE_SIZE)
+            ]),
+        ]);
+
+        const locations = parseDocumentList(PostSchema, posts).documents
+            .map((post) => post.location?.trim())
+            .filter((location): location is string => !!location);
+
+        return {
+            users: users.documents,
+            tags: tags.tags.slice(0, SUGGESTIONS_LIMIT),
+            locations: [...new Set(locations)].slice(0, SUGGESTIONS_LIMIT),
+        };
+    }
+    catch (error) {
+        throw toAppError(error);
+    }
+}
 
-        if (!posts) throw Error;
+// Recent searches are kept in the backend, falling back to localStorage when it has nowhere to keep them
+const recentSearchesStorageKey = (userId: string) => `recentSearches:${userId}`;
 
-        return posts;
+// A project set up before the searches collection existed, any other failure is a real one
+const isSearchesCollectionMissing = (error: unknown) => {
+    const { type } = toAppError(error);
+    return type === "collection_not_found" || type === "database_not_found";
+};
+
+function readStoredSearches(userId: string): IRecentSearch[] {
+    try {
+        const stored: unknown = JSON.parse(localStorage.getItem(recentSearchesStorageKey(userId)) ?? "[]");
+        return Array.isArray(stored) ? stored.map((search) => parseDocument(RecentSearchSchema, search)) : [];
+    }
+    catch {
+        return [];
+    }
+}
+
+// Keeps the newest copy of each query, as a prune that failed can leave older ones behind
+const dedupeSearches = (searches: IRecentSearch[]) =>
+    searches.filter((search, index) => searches.findIndex((other) => other.query === search.query) === index);
+
+function writeStoredSearches(userId: string, searches: IRecentSearch[]) {
+    localStorage.setItem(recentSearchesStorageKey(userId), JSON.stringify(searches.slice(0, RECENT_SEARCHES_LIMIT)));
+}
+
+// Getting the recent searches of a user, newest first
+export async function getRecentSearches(userId?: string) {
+    if (!userId) return [];
+
+    try {
+        const searches = await backend.collections.searches.list([
+            Query.equal("userId", userId),
+            Query.orderDesc("$createdAt"),
+            Query.limit(RECENT_SEARCHES_LIMIT * 2)
+        ]);
+        // Searches kept locally before the collection was added are merged in until they fall off the end
+        const merged = [
+            ...searches.documents.map((search) => parseDocument(RecentSearchSchema, search)),
+            ...readStoredSearches(userId),
+        ].sort((a, b) => b.$createdAt.localeCompare(a.$createdAt));
+
+        return dedupeSearches(merged).slice(0, RECENT_SEARCHES_LIMIT);
     }
     catch (error) {
-        console.log(error);
+        if (!isSearchesCollectionMissing(error)) throw toAppError(error);
+        return dedupeSearches(readStoredSearches(userId));
     }
 }
 
-// Get Users
-// export async function getUsers(limit?: number) {
-//     const queries: any[] = [Query.orderDesc("$createdAt")];
-
-//     if(limit) {
-//         queries.push(Query.limit(limit))
-//     }
-//     try {
-//         const users = await databases.listDocuments(
-//             appwriteConfig.databaseId,
-//             appwriteConfig.userCollectionId,
-//             queries
-//         );
-//         if (!users) throw Error;
-
-//         return users;
-//     }
-//     catch (error) {
-//         console.log(error);
-//     }
-// }
-
-
-export async function getUsers(limit?: number) {
-    const queries: string[] = [Query.orderDesc("$createdAt")];
-
-    if(limit) {
-        queries.push(Query.limit(limit))
-    }
-    try {
-        const users = await databases.listDocuments(
-            appwriteConfig.databaseId,
-            appwriteConfig.userCollectionId,
-            queries
-        );
-        if (!users) throw Error;
+// Adding a search to the history, moving it to the top when it was already there
+export async function addRecentSearch(userId: string, query: string) {
+    const trimmedQuery = query.trim();
+    if (!trimmedQuery) return;
+
+    try {
+        const newSearch = await runSaga(async (saga) => {
+            const searches = await backend.collections.searches.list([
+                Query.equal("userId", userId),
+                Query.orderDesc("$createdAt"),
+                Query.limit(MAX_LIST_LIMIT)
+            ]);
+
+            const newSearch = await saga.step(
+                () => backend.collections.searches.create({ userId, query: trimmedQuery }),
+                (search) => backend.collections.searches.delete(search.$id)
+            );
+
+            // Dropping the earlier copy of this search and whatever falls off the end of the history.
+            // What a failed prune leaves is pruned by the next search, and reads skip the repeats meanwhile
+            const repeated = searches.documents.filter((search) => search.query === trimmedQuery);
+            const others = searches.documents.filter((search) => search.query !== trimmedQuery);
+            const outdated = [...repeated, ...others.slice(RECENT_SEARCHES_LIMIT - 1)];
+            saga.onComplete(() => Promise.all(outdated.map((search) => backend.collections.searches.delete(search.$id))));
+
+            return newSearch;
+        });
 
-        return users;
+        return parseDocument(RecentSearchSchema, newSearch);
     }
     catch (error) {
-        console.log(error);
+        if (!isSearchesCollectionMissing(error)) throw toAppError(error);
+
+        const newSearch: IRecentSearch = { $id: ID.unique(), userId, query: trimmedQuery, $createdAt: new Date().toISOString() };
+        writeStoredSearches(userId, [newSearch, ...readStoredSearches(userId).filter((search) => search.query !== trimmedQuery)]);
+        return newSearch;
     }
 }
 
+// Removing a single search from the history
+export async function deleteRecentSearch(userId: string, searchId: string) {
+    writeStoredSearches(userId, readStoredSearches(userId).filter((search) => search.$id !== searchId));
+
+    try {
+        await backend.collections.searches.delete(searchId);
+    }
+    catch (error) {
+        // A search kept locally has no document, and neither does a project without the collection
+        if (toAppError(error).kind !== "not-found") throw toAppError(error);
+    }
+
+    return { status: "Ok" };
+}
+
+// Clearing the whole search history of a user
+export async function clearRecentSearches(userId: string) {
+    // Searches kept while the backend had nowhere to keep them go too
+    localStorage.removeItem(recentSearchesStorageKey(userId));
+
+    try {
+        const searches = await backend.collections.searches.list([Query.equal("userId", userId), Query.limit(MAX_LIST_LIMIT)]);
+        await Promise.all(searches.documents.map((search) => backend.collections.searches.delete(search.$id)));
+    }
+    catch (error) {
+        if (!isSearchesCollectionMissing(error)) throw toAppError(error);
+    }
+
+    return { status: "Ok" };
+}
+
+// Get Users
+export async function getUsers({ pageParam, limit } : { pageParam: string | null; limit?: number }) {
+    return getDocumentsPage({
+        collection: "users",
+        schema: UserDocumentSchema,
+        queries: [Query.orderDesc("$createdAt")],
+        pageParam,
+        limit
+    });
+}
+
 
 
 // Update User
 export async function updateUser(user: IUpdateUser) {
     const hasFileToUpdate = user.file.length > 0;
     try {
-        let image = {
-            imageUrl: user.imageUrl,
-            imageId: user.imageId
-        };
+        const updatedUser = await runSaga(async (saga) => {
+            let image = {
+                imageUrl: user.imageUrl,
+                imageId: user.imageId
+            };
 
-        if (hasFileToUpdate) {
-            const uploadedFile = await uploadFile(user.file[0])
+            if (hasFileToUpdate) {
+                const uploadedFile = await saga.step(() => uploadFile(user.file[0]), (uploaded) => deleteFile(uploaded.$id));
+                if(!uploadedFile) throw Error;
 
-            if(!uploadedFile) throw Error;
+                const fileUrl = getFilePreview(uploadedFile.$id);
+                if(!fileUrl) throw Error;
 
-            const fileUrl = getFilePreview(uploadedFile.$id);
-            if(!fileUrl) {
-                await deleteFile(uploadedFile.$id);
-                throw Error;
+                image = {...image, imageUrl: fileUrl, imageId: uploadedFile.$id};
+
+                // The previous picture is only removed once the new one is saved
+                if (user.imageId) {
+                    const previousImageId = user.imageId;
+                    saga.onComplete(() => deleteFile(previousImageId));
+                }
             }
-            image = {...image, imageUrl: fileUrl, imageId: uploadedFile.$id};
-        }
-        const updatedUser = await databases.updateDocument(
-            appwriteConfig.databaseId,
-            appwriteConfig.userCollectionId,
-            user.userId,
+
+            const updatedUser = await saga.step(() =>
+                backend.collections.users.update(
+                    user.userId,
+                    {
+                        name: user.name,
+                        bio: user.bio,
+                        imageUrl: image.imageUrl,
+                        imageId: image.imageId
+                    }
+                )
+            );
+            if(!updatedUser) throw Error;
+
+            return updatedUser;
+        });
+
+        return parseDocument(UserDocumentSchema, updatedUser);
+    }
+    catch (error) {
+        throw toAppError(error);
+    }
+}
+
+// Getting user by the ID
+export async function getUserById(userId: string) {
+    try {
+        const user = await backend.collections.users.get(userId);
+        if(!user) throw Error;
+
+        return parseDocument(UserDocumentSchema, user);
+    }
+    catch (error) {
+        throw toAppError(error);
+    }
+}
+
+// Popular / Recent Posts by the User
+export async function getRecentPosts({ pageParam } : { pageParam: string | null }) {
+    return getDocumentsPage({
+        collection: "posts",
+        schema: PostSchema,
+        queries: [Query.orderDesc("$createdAt")],
+        pageParam
+    });
+}
+
+// Getting User's Post
+export async function getUserPosts({ userId, pageParam } : { userId?: string; pageParam: string | null }) {
+    if (!userId) return;
+
+    return getDocumentsPage({
+        collection: "posts",
+        schema: PostSchema,
+        queries: [Query.equal("creator", userId), Query.orderDesc("$createdAt")],
+        pageParam
+    });
+}
+
+// Getting the account of the user
+export async function getAccount() {
+    try {
+        const currentAccount = await backend.accounts.get();
+
+        return currentAccount;
+    }
+    catch (error) {
+        throw toAppError(error);
+    }
+}
+
+// Follow a user
+export async function followUser(followerId: string, followingId: string) {
+    try {
+        const followRecord = await backend.collections.follows.create(
             {
-                name: user.name,
-                bi0: user.bio,
-                imageUrl: image.imageUrl,
-                imageId: image.imageId
+                followerId: followerId,
+                followingId: followingId
             }
         );
-        if(!updatedUser) {
-            if (hasFileToUpdate) {
-                await deleteFile(image.imageId);
-            }
-            throw Error;
-        }
-        if (user.imageId && hasFileToUpdate) {
-            await deleteFile(user.imageId);
+
+        if (!followRecord) throw Error;
+
+        await createNotification({
+            recipientId: followingId,
+            actorId: followerId,
+            type: "follow"
+        });
+
+        return parseDocument(FollowSchema, followRecord);
+    }
+    catch (error) {
+        if (toAppError(error).kind === "conflict") {
+            const existingFollow = await findExistingRecord("follows", [Query.equal("followerId", followerId), Query.equal("followingId", followingId)]);
+            if (existingFollow) return parseDocument(FollowSchema, existingFollow);
         }
-        return updatedUser;
+        throw toAppError(error);
+    }
+}
+
+// Unfollow a user
+export async function unfollowUser(followRecordId: string) {
+    try {
+        const statusCode = await backend.collections.follows.delete(followRecordId);
+
+        if (!statusCode) throw Error;
+        return { status: "Ok" };
     }
     catch (error) {
-        console.log(error);
+        throw toAppError(error);
     }
 }
 
-// Getting user by the ID
-export async function getUserById(userId: string) {
+// Getting the users who follow a user
+export async function getFollowers(userId?: string) {
+    if (!userId) return;
+
+    try {
+        const followers = await backend.collections.follows.list([Query.equal("followingId", userId), Query.limit(MAX_LIST_LIMIT)]);
+
+        if (!followers) throw Error;
+
+        return parseDocumentList(FollowSchema, followers);
+    }
+    catch (error) {
+        throw toAppError(error);
+    }
+}
+
+// Getting the users a user follows
+export async function getFollowing(userId?: string) {
+    if (!userId) return;
+
+    try {
+        const following = await backend.collections.follows.list([Query.equal("followerId", userId), Query.limit(MAX_LIST_LIMIT)]);
+
+        if (!following) throw Error;
+
+        return parseDocumentList(FollowSchema, following);
+    }
+    catch (error) {
+        throw toAppError(error);
+    }
+}
+
+
+// Posts from the accounts a user follows
+// A query matches at most QUERY_VALUES_LIMIT creators, so larger follow lists are queried in batches merged by date,
+// and the cursor is the date of the last post shown rather than its id, which every batch can continue from
+export async function getFollowingPosts({ pageParam, creatorIds } : { pageParam: string | null; creatorIds: string[] }): Promise<IDocumentPage<IPost> | undefined> {
+    if (creatorIds.length === 0) return;
+
+    const batches: string[][] = [];
+    for (let start = 0; start < creatorIds.length; start += QUERY_VALUES_LIMIT) {
+        batches.push(creatorIds.slice(start, start + QUERY_VALUES_LIMIT));
+    }
+
+    try {
+        const pages = await Promise.all(batches.map((batch) => backend.collections.posts.list([
+            Query.equal("creator", batch),
+            ...(pageParam ? [Query.lessThan("$createdAt", pageParam)] : []),
+            Query.orderDesc("$createdAt"),
+            Query.limit(DEFAULT_PAGE_SIZE)
+        ])));
+
+        const documents = pages
+            .flatMap((page) => page.documents)
+            .sort((a, b) => b.$createdAt.localeCompare(a.$createdAt))
+            .slice(0, DEFAULT_PAGE_SIZE);
+        const lastDocument = documents[documents.length - 1];
+
+        return {
+            ...parseDocumentList(PostSchema, {
+                total: pages.reduce((total, page) => total + page.total, 0),
+                documents
+            }),
+            // A short page means there is nothing after it
+            cursor: documents.length < DEFAULT_PAGE_SIZE ? null : lastDocument.$createdAt
+        };
+    }
+    catch (error) {
+        throw toAppError(error);
+    }
+}
+
+
+// Creating a comment, or a reply when parentId is set
+export async function createComment(comment: INewComment) {
+    try {
+        const newComment = await runSaga(async (saga) => {
+            const newComment = await saga.step(
+                () => backend.collections.comments.create(
+                    {
+                        postId: comment.postId,
+                        creator: comment.userId,
+                        content: comment.content,
+                        parentId: comment.parentId ?? null
+                    }
+                ),
+                (newComment) => backend.collections.comments.delete(newComment.$id)
+            );
+
+            if (!newComment) throw Error;
+
+            await saga.step(() => syncCommentsCount(comment.postId));
+            return newComment;
+        });
+
+        await notifyPostCreator(comment.postId, comment.userId, "comment");
+        await notifyMentions(comment.content, comment.userId, comment.postId);
+
+        return parseDocument(CommentSchema, newComment);
+    }
+    catch (error) {
+        throw toAppError(error);
+    }
+}
+
+// Getting the comments of a post, or the replies to a comment when parentId is set
+export async function getComments({ postId, parentId, pageParam } : { postId?: string; parentId?: string; pageParam: string | null }) {
+    if (!postId) return;
+
+    const queries = parentId
+        ? [Query.equal("postId", postId), Query.equal("parentId", parentId), Query.orderAsc("$createdAt")]
+        : [Query.equal("postId", postId), Query.isNull("parentId"), Query.orderDesc("$createdAt")];
+
+    return getDocumentsPage({
+        collection: "comments",
+        schema: CommentSchema,
+        queries,
+        pageParam
+    });
+}
+
+// Recounting all comments and replies on a post, so the post carries its count like it does its likes
+async function syncCommentsCount(postId: string) {
+    const comments = await backend.collections.comments.list([Query.equal("postId", postId), Query.limit(1)]);
+
+    await backend.collections.posts.update(postId, { commentsCount: comments.total });
+}
+
+// Editing a comment
+export async function editComment(comment: IUpdateComment) {
     try {
-        const user = await databases.getDocument(
-            appwriteConfig.databaseId,
-            appwriteConfig.userCollectionId,
-            userId
+        const updatedComment = await backend.collections.comments.update(
+            comment.commentId,
+            {
+                content: comment.content
+            }
         );
-        if(!user) throw Error;
 
-        return user;
+        if (!updatedComment) throw Error;
+
+        return parseDocument(CommentSchema, updatedComment);
     }
     catch (error) {
-        console.log(error);
+        throw toAppError(error);
     }
 }
 
-// Popular / Recent Posts by the User
-export async function getRecentPosts() {
+// Putting a deleted comment back under its old id, which its replies point at
+const restoreComment = (comment: Models.Document) =>
+    backend.collections.comments.create(
+        {
+            postId: comment.postId,
+            creator: getRelatedId(comment.creator),
+            content: comment.content,
+            parentId: comment.parentId ?? null
+        },
+        comment.$id
+    );
+
+// Deleting a comment together with its replies
+export async function deleteComment(commentId: string) {
     try {
-        const posts = await databases.listDocuments(
-            appwriteConfig.databaseId,
-            appwriteConfig.postCollectionId,
-            [Query.orderDesc("$createdAt"), Query.limit(20)]
-        );  
-        if (!posts) throw Error;
-  
-        return posts;
+        const deletedCount = await runSaga(async (saga) => {
+            const comment = await backend.collections.comments.get(commentId);
+            const replies = await listAll(async (queries) =>
+                (await backend.collections.comments.list([Query.equal("parentId", commentId), ...queries])).documents
+            );
+
+            await Promise.all(
+                replies.map((reply) => saga.step(
+                    () => backend.collections.comments.delete(reply.$id),
+                    () => restoreComment(reply)
+                ))
+            );
+
+            const statusCode = await saga.step(
+                () => backend.collections.comments.delete(commentId),
+                () => restoreComment(comment)
+            );
+
+            if (!statusCode) throw Error;
+
+            await saga.step(() => syncCommentsCount(comment.postId));
+            return replies.length + 1;
+        });
+
+        return { status: "Ok", deletedCount };
     }
     catch (error) {
-        console.log(error);
+        throw toAppError(error);
     }
 }
 
-// Getting User's Post
-export async function getUserPosts(userId?: string) {
+
+// Likes and follows can be undone and repeated, which would otherwise notify once per repeat
+const REPEATABLE_NOTIFICATION_TYPES: INotificationType[] = ["like", "follow"];
+
+// The unread notification a repeated like or follow would duplicate
+// The actor is a relationship, which Appwrite cannot filter on, so it is matched here
+async function findUnreadNotification(notification: INewNotification) {
+    const unread = await backend.collections.notifications.list([
+        Query.equal("recipientId", notification.recipientId),
+        Query.equal("type", notification.type),
+        notification.postId ? Query.equal("postId", notification.postId) : Query.isNull("postId"),
+        Query.equal("read", false),
+        Query.limit(MAX_LIST_LIMIT)
+    ]);
+
+    return unread.documents.find((existing) => getRelatedId(existing.actor) === notification.actorId);
+}
+
+// Creating a notification, unless users are acting on their own content
+// Notifications are best effort, a failure here never fails the action that caused it
+export async function createNotification(notification: INewNotification) {
+    if (!notification.recipientId || notification.recipientId === notification.actorId) return;
+
+    try {
+        if (REPEATABLE_NOTIFICATION_TYPES.includes(notification.type)) {
+            const unreadNotification = await findUnreadNotification(notification);
+            if (unreadNotification) return parseDocument(NotificationSchema, unreadNotification);
+        }
+
+        const newNotification = await backend.collections.notifications.create(
+            {
+                recipientId: notification.recipientId,
+                actor: notification.actorId,
+                type: notification.type,
+                postId: notification.postId ?? null,
+                read: false
+            }
+        );
+
+        if (!newNotification) throw Error;
+
+        return parseDocument(NotificationSchema, newNotification);
+    }
+    catch {
+        return undefined;
+    }
+}
+
+// Notifying the creator of a post
+async function notifyPostCreator(postId: string, actorId: string, type: INotificationType) {
+    try {
+        const post = await getPostById(postId);
+
+        await createNotification({
+            recipientId: post.creator.$id,
+            actorId,
+            type,
+            postId
+        });
+    }
+    catch {
+        // The action was done, only its notification is missing
+    }
+}
+
+// Notifying every user mentioned with @username in a text, except those already mentioned in its previous version
+async function notifyMentions(text: string, actorId: string, postId: string, previousText?: string) {
+    const previousUsernames = extractMentions(previousText);
+    const usernames = extractMentions(text).filter((username) => !previousUsernames.includes(username));
+    if (usernames.length === 0) return;
+
+    try {
+        const mentionedUsers = await backend.collections.users.list([Query.equal("username", usernames.slice(0, QUERY_VALUES_LIMIT))]);
+
+        await Promise.all(
+            mentionedUsers.documents.map((mentionedUser) =>
+                createNotification({
+                    recipientId: mentionedUser.$id,
+                    actorId,
+                    type: "mention",
+                    postId
+                })
+            )
+        );
+    }
+    catch {
+        // The text was saved, only its mentions went unnotified
+    }
+}
+
+// Getting the notifications of a user
+export async function getNotifications({ userId, pageParam } : { userId?: string; pageParam: string | null }) {
+    if (!userId) return;
+
+    return getDocumentsPage({
+        collection: "notifications",
+        schema: NotificationSchema,
+        queries: [Query.equal("recipientId", userId), Query.orderDesc("$createdAt")],
+        pageParam,
+        limit: 20
+    });
+}
+
+// Counting the unread notifications of a user
+export async function getUnreadNotificationsCount(userId?: string) {
     if (!userId) return;
-  
+
+    try {
+        const notifications = await backend.collections.notifications.list([Query.equal("recipientId", userId), Query.equal("read", false), Query.limit(1)]);
+
+        if (!notifications) throw Error;
+
+        return notifications.total;
+    }
+    catch (error) {
+        throw toAppError(error);
+    }
+}
+
+// Marking a notification as read
+export async function markNotificationRead(notificationId: string) {
     try {
-        const post = await databases.listDocuments(
-            appwriteConfig.databaseId,
-            appwriteConfig.postCollectionId,
-            [Query.equal("creator", userId), Query.orderDesc("$createdAt")]
+        const updatedNotification = await backend.collections.notifications.update(
+            notificationId,
+            {
+                read: true
+            }
         );
-  
-        if (!post) throw Error;
-  
-        return post;
+
+        if (!updatedNotification) throw Error;
+
+        return parseDocument(NotificationSchema, updatedNotification);
     }
     catch (error) {
-        console.log(error);
+        throw toAppError(error);
     }
 }
 
-// Getting the account of the user
-export async function getAccount() {
+// Marking all notifications of a user as read. Marking one twice changes nothing, so after a partial
+// failure the caller can simply try again
+export async function markAllNotificationsRead(userId: string) {
     try {
-        const currentAccount = await account.get();
+        const unread = await listAll(async (queries) =>
+            (await backend.collections.notifications.list([Query.equal("recipientId", userId), Query.equal("read", false), ...queries])).documents
+        );
 
-        return currentAccount;
+        await Promise.all(
+            unread.map((notification) =>
+                backend.collections.notifications.update(
+                    notification.$id,
+                    {
+                        read: true
+                    }
+                )
+            )
+        );
+
+        return { status: "Ok" };
     }
     catch (error) {
-        console.log(error);
+        throw toAppError(error);
     }
-}
\ No newline at end of file
+}
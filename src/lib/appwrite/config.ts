@@ -7,13 +7,25 @@ export const appwriteConfig = {
     storageId: import.meta.env.VITE_APPWRITE_STORAGE_ID,
     userCollectionId: import.meta.env.VITE_APPWRITE_USER_COLLECTION_ID,
     postCollectionId: import.meta.env.VITE_APPWRITE_POST_COLLECTION_ID,
-    savesCollectionId: import.meta.env.VITE_APPWRITE_SAVES_COLLECTION_ID
+    savesCollectionId: import.meta.env.VITE_APPWRITE_SAVES_COLLECTION_ID,
+    // Needs a unique index on (userId, postId), which keeps a user from liking a post twice
+    likesCollectionId: import.meta.env.VITE_APPWRITE_LIKES_COLLECTION_ID,
+    // Needs a unique index on (followerId, followingId), which keeps a user from following someone twice
+    followsCollectionId: import.meta.env.VITE_APPWRITE_FOLLOWS_COLLECTION_ID,
+    commentsCollectionId: import.meta.env.VITE_APPWRITE_COMMENTS_COLLECTION_ID,
+    notificationsCollectionId: import.meta.env.VITE_APPWRITE_NOTIFICATIONS_COLLECTION_ID,
+    savedCollectionsCollectionId: import.meta.env.VITE_APPWRITE_SAVED_COLLECTIONS_COLLECTION_ID,
+    // Optional, recent searches stay in localStorage without it
+    searchesCollectionId: import.meta.env.VITE_APPWRITE_SEARCHES_COLLECTION_ID
 };
 
 export const client = new Client();
 
-client.setProject(appwriteConfig.projectId);
-client.setEndpoint(appwriteConfig.url);
+// The in-memory backend runs without an Appwrite project configured
+if (appwriteConfig.url) {
+    client.setProject(appwriteConfig.projectId);
+    client.setEndpoint(appwriteConfig.url);
+}
 
 export const account = new Account(client);
 export const databases = new Databases(client);
@@ -0,0 +1,90 @@
+import { ID } from "appwrite";
+import { account, appwriteConfig, avatars, client, databases, storage } from "../appwrite/config";
+import { BackendEvent, CollectionName, DocumentStore, SnapgramBackend } from "./types";
+import { IMAGE_QUALITY, MAX_IMAGE_DIMENSION } from "@/constants";
+
+const collectionIds: Record<CollectionName, string> = {
+    users: appwriteConfig.userCollectionId,
+    posts: appwriteConfig.postCollectionId,
+    saves: appwriteConfig.savesCollectionId,
+    likes: appwriteConfig.likesCollectionId,
+    follows: appwriteConfig.followsCollectionId,
+    comments: appwriteConfig.commentsCollectionId,
+    notifications: appwriteConfig.notificationsCollectionId,
+    savedCollections: appwriteConfig.savedCollectionsCollectionId,
+    searches: appwriteConfig.searchesCollectionId,
+};
+
+const channelFor = (collection: CollectionName) =>
+    `databases.${appwriteConfig.databaseId}.collections.${collectionIds[collection]}.documents`;
+
+const createStore = (collection: CollectionName): DocumentStore => ({
+    get: (documentId) =>
+        databases.getDocument(appwriteConfig.databaseId, collectionIds[collection], documentId),
+    list: (queries) =>
+        databases.listDocuments(appwriteConfig.databaseId, collectionIds[collection], queries),
+    create: (data, documentId = ID.unique()) =>
+        databases.createDocument(appwriteConfig.databaseId, collectionIds[collection], documentId, data),
+    update: (documentId, data) =>
+        databases.updateDocument(appwriteConfig.databaseId, collectionIds[collection], documentId, data),
+    delete: (documentId) =>
+        databases.deleteDocument(appwriteConfig.databaseId, collectionIds[collection], documentId),
+});
+
+export const appwriteBackend: SnapgramBackend = {
+    accounts: {
+        create: (email, password, name) => account.create(ID.unique(), email, password, name),
+        get: () => account.get(),
+        createSession: (email, password) => account.createEmailPasswordSession(email, password),
+        deleteSession: () => account.deleteSession("current"),
+    },
+    avatars: {
+        getInitials: (name) => avatars.getInitials(name),
+    },
+    files: {
+        create: (file, { fileId = ID.unique(), onProgress } = {}) =>
+            // The SDK only reports progress between chunks, so count the chunks rather than its byte offset
+            storage.createFile(appwriteConfig.storageId, fileId, file, undefined, (progress) =>
+                onProgress?.({
+                    uploaded: Math.min(file.size, Math.round((progress.chunksUploaded / progress.chunksTotal) * file.size)),
+                    total: file.size,
+                })
+            ),
+        getPreview: (fileId, width) =>
+            // Uploads are already compressed, so a lossless preview would only grow them again
+            width
+                ? storage.getFilePreview(appwriteConfig.storageId, fileId, width, undefined, undefined, Math.round(IMAGE_QUALITY * 100))
+                : storage.getFilePreview(appwriteConfig.storageId, fileId, MAX_IMAGE_DIMENSION, MAX_IMAGE_DIMENSION, undefined, Math.round(IMAGE_QUALITY * 100)),
+        getView: (fileId) => storage.getFileView(appwriteConfig.storageId, fileId),
+        delete: (fileId) => storage.deleteFile(appwriteConfig.storageId, fileId),
+        list: (queries) => storage.listFiles(appwriteConfig.storageId, queries),
+    },
+    collections: {
+        users: createStore("users"),
+        posts: createStore("posts"),
+        saves: createStore("saves"),
+        likes: createStore("likes"),
+        follows: createStore("follows"),
+        comments: createStore("comments"),
+        notifications: createStore("notifications"),
+        savedCollections: createStore("savedCollections"),
+        searches: createStore("searches"),
+    },
+    subscribe: (collections, callback) => {
+        const channels = collections.map(channelFor);
+
+        return client.subscribe(channels, (response) => {
+            const collection = collections.find((name) => response.channels.includes(channelFor(name)));
+            const action = (["create", "update", "delete"] as const).find((name) =>
+                response.events.some((event) => event.endsWith(`.${name}`))
+            );
+            if (!collection || !action) return;
+
+            callback({
+                collection,
+                action,
+                document: response.payload as BackendEvent["document"],
+            });
+        });
+    },
+};
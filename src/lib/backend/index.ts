@@ -0,0 +1,9 @@
+import { appwriteBackend } from "./appwrite";
+import { memoryBackend } from "./memory";
+import { SnapgramBackend } from "./types";
+
+export type { BackendEvent, CollectionName, DocumentStore, SnapgramBackend } from "./types";
+
+// Set VITE_SNAPGRAM_BACKEND=memory to run against seeded in-memory data instead of Appwrite
+export const backend: SnapgramBackend =
+    import.meta.env.VITE_SNAPGRAM_BACKEND === "memory" ? memoryBackend : appwriteBackend;
@@ -0,0 +1,473 @@
+import { AppwriteException, ID, Models } from "appwrite";
+import { seedAccounts, seedDocuments } from "./seed";
+import { BackendEvent, CollectionName, DocumentData, DocumentStore, SnapgramBackend } from "./types";
+
+type StoredDocument = Models.Document;
+
+type QueryDescription = {
+    method: string;
+    attribute?: string;
+    values?: unknown[];
+};
+
+type Relation =
+    | { collection: CollectionName; kind: "one" | "many" }
+    | { collection: CollectionName; kind: "reverse"; via: string };
+
+// Mirrors the relationship attributes of the Appwrite collections
+const RELATIONS: Record<CollectionName, Record<string, Relation>> = {
+    users: {
+        posts: { collection: "posts", kind: "reverse", via: "creator" },
+        save: { collection: "saves", kind: "reverse", via: "user" },
+    },
+    posts: {
+        creator: { collection: "users", kind: "one" },
+        save: { collection: "saves", kind: "reverse", via: "post" },
+    },
+    saves: {
+        user: { collection: "users", kind: "one" },
+        post: { collection: "posts", kind: "one" },
+    },
+    likes: {},
+    follows: {},
+    comments: {
+        creator: { collection: "users", kind: "one" },
+    },
+    notifications: {
+        actor: { collection: "users", kind: "one" },
+    },
+    savedCollections: {},
+    searches: {},
+};
+
+// Mirrors the unique indexes of the Appwrite collections
+const UNIQUE_INDEXES: Partial<Record<CollectionName, string[][]>> = {
+    likes: [["userId", "postId"]],
+    follows: [["followerId", "followingId"]],
+};
+
+// Appwrite expands relationships a couple of levels deep, enough for post.creator and user.save[].post
+const MAX_EXPAND_DEPTH = 2;
+const DEFAULT_LIMIT = 25;
+const SESSION_KEY = "cookieFallback";
+
+const COLLECTIONS = Object.keys(RELATIONS) as CollectionName[];
+
+let lastTimestamp = 0;
+
+// Strictly increasing timestamps keep ordering by $createdAt stable
+const timestamp = () => {
+    lastTimestamp = Math.max(Date.now(), lastTimestamp + 1);
+    return new Date(lastTimestamp).toISOString();
+};
+
+const toStoredDocument = (collection: CollectionName, data: DocumentData & { $id: string }): StoredDocument => {
+    const now = timestamp();
+    return {
+        $collectionId: collection,
+        $databaseId: "memory",
+        $createdAt: now,
+        $updatedAt: now,
+        $permissions: [],
+        ...data,
+    };
+};
+
+const documents: Record<CollectionName, Map<string, StoredDocument>> = Object.fromEntries(
+    COLLECTIONS.map((collection) => [
+        collection,
+        new Map((seedDocuments[collection] ?? []).map((data) => [data.$id, toStoredDocument(collection, data)])),
+    ])
+) as Record<CollectionName, Map<string, StoredDocument>>;
+
+const accounts = [...seedAccounts];
+const files = new Map<string, { file: File; url: string; model: Models.File }>();
+const listeners = new Set<(event: BackendEvent) => void>();
+
+const emit = (event: BackendEvent) => listeners.forEach((listener) => listener(event));
+
+const notFound = (collection: string, documentId: string) =>
+    new AppwriteException(`Document ${documentId} in ${collection} could not be found.`, 404, "document_not_found");
+
+const duplicate = () =>
+    new AppwriteException(
+        "Document with the requested ID already exists. Try again with a different ID or use ID.unique() to generate a unique ID.",
+        409,
+        "document_already_exists"
+    );
+
+const assertUnique = (collection: CollectionName, document: StoredDocument) => {
+    UNIQUE_INDEXES[collection]?.forEach((attributes) => {
+        const isTaken = [...documents[collection].values()].some((existing) =>
+            existing.$id !== document.$id &&
+            attributes.every((attribute) => existing[attribute] === document[attribute])
+        );
+        if (isTaken) throw duplicate();
+    });
+};
+
+const toId = (value: unknown) =>
+    value && typeof value === "object" && "$id" in value ? (value as StoredDocument).$id : value;
+
+// Relationship attributes are stored as ids, like Appwrite accepts them on writes
+const normalizeRelations = (collection: CollectionName, data: DocumentData) => {
+    const normalized: DocumentData = { ...data };
+
+    Object.entries(RELATIONS[collection]).forEach(([attribute, relation]) => {
+        if (!(attribute in normalized)) return;
+        if (relation.kind === "reverse") {
+            delete normalized[attribute];
+        }
+        else if (relation.kind === "many") {
+            normalized[attribute] = ((normalized[attribute] as unknown[]) ?? []).map(toId);
+        }
+        else {
+            normalized[attribute] = toId(normalized[attribute]) ?? null;
+        }
+    });
+
+    return normalized;
+};
+
+const expand = (collection: CollectionName, document: StoredDocument, depth = 0): StoredDocument => {
+    const expanded: StoredDocument = { ...document };
+
+    Object.entries(RELATIONS[collection]).forEach(([attribute, relation]) => {
+        if (depth >= MAX_EXPAND_DEPTH) {
+            if (relation.kind === "reverse") delete expanded[attribute];
+            return;
+        }
+
+        const related = documents[relation.collection];
+
+        if (relation.kind === "reverse") {
+            expanded[attribute] = [...related.values()]
+                .filter((candidate) => {
+                    const value = candidate[relation.via];
+                    return Array.isArray(value) ? value.includes(document.$id) : value === document.$id;
+                })
+                .map((candidate) => expand(relation.collection, candidate, depth + 1));
+        }
+        else if (relation.kind === "many") {
+            expanded[attribute] = ((document[attribute] as string[]) ?? [])
+                .map((id) => related.get(id))
+                .filter((candidate): candidate is StoredDocument => !!candidate)
+                .map((candidate) => expand(relation.collection, candidate, depth + 1));
+        }
+        else {
+            const candidate = related.get(document[attribute]);
+            expanded[attribute] = candidate ? expand(relation.collection, candidate, depth + 1) : null;
+        }
+    });
+
+    return expanded;
+};
+
+const matches = (document: StoredDocument, query: QueryDescription): boolean => {
+    const value = query.attribute ? document[query.attribute] : undefined;
+    const values = query.values ?? [];
+    const candidates: unknown[] = Array.isArray(value) ? value : [value];
+
+    switch (query.method) {
+        case "equal":
+            return candidates.some((candidate) => values.includes(candidate));
+        case "notEqual":
+            return !candidates.some((candidate) => values.includes(candidate));
+        case "contains":
+            // Arrays contain whole elements, strings contain substrings
+            if (Array.isArray(value)) return candidates.some((candidate) => values.includes(candidate));
+            return candidates.some((candidate) =>
+                values.some((expected) =>
+                    typeof candidate === "string" && typeof expected === "string"
+                        ? candidate.includes(expected)
+                        : candidate === expected
+                )
+            );
+        case "isNull":
+            return value === null || value === undefined;
+        case "isNotNull":
+            return value !== null && value !== undefined;
+        case "lessThan":
+            return value < (values[0] as typeof value);
+        case "lessThanEqual":
+            return value <= (values[0] as typeof value);
+        case "greaterThan":
+            return value > (values[0] as typeof value);
+        case "greaterThanEqual":
+            return value >= (values[0] as typeof value);
+        case "between":
+            return value >= (values[0] as typeof value) && value <= (values[1] as typeof value);
+        case "startsWith":
+            return typeof value === "string" && value.startsWith(String(values[0]));
+        case "endsWith":
+            return typeof value === "string" && value.endsWith(String(values[0]));
+        case "search": {
+            const terms = String(values[0] ?? "").toLowerCase().split(/\s+/).filter(Boolean);
+            const text = String(value ?? "").toLowerCase();
+            return terms.some((term) => text.includes(term));
+        }
+        case "or":
+            return (values as QueryDescription[]).some((inner) => matches(document, inner));
+        case "and":
+            return (values as QueryDescription[]).every((inner) => matches(document, inner));
+        default:
+            return true;
+    }
+};
+
+const FILTER_METHODS = new Set([
+    "equal", "notEqual", "contains", "isNull", "isNotNull", "lessThan", "lessThanEqual",
+    "greaterThan", "greaterThanEqual", "between", "startsWith", "endsWith", "search", "or", "and",
+]);
+
+// Missing values sort before any other, like NULL does in Appwrite's database
+const compareValues = (a: unknown, b: unknown) => {
+    if (a === b) return 0;
+    if (a === null || a === undefined) return -1;
+    if (b === null || b === undefined) return 1;
+    return (a as string | number) > (b as string | number) ? 1 : -1;
+};
+
+// Cursor, offset and limit queries, applied after filtering and ordering
+// A cursor missing from the results fails like Appwrite does for a deleted cursor document, rather than restarting the list
+const paginate = <T extends { $id: string }>(collection: string, results: T[], queries: QueryDescription[]) => {
+    const option = (method: string) => queries.find((query) => query.method === method)?.values?.[0];
+    const findCursor = (cursor: unknown) => {
+        const index = results.findIndex((document) => document.$id === cursor);
+        if (index === -1) throw notFound(collection, String(cursor));
+        return index;
+    };
+
+    const cursorAfter = option("cursorAfter");
+    if (cursorAfter) {
+        results = results.slice(findCursor(cursorAfter) + 1);
+    }
+
+    const cursorBefore = option("cursorBefore");
+    if (cursorBefore) {
+        results = results.slice(0, findCursor(cursorBefore));
+    }
+
+    const offset = Number(option("offset") ?? 0);
+    const limit = Number(option("limit") ?? DEFAULT_LIMIT);
+
+    return results.slice(offset, offset + limit);
+};
+
+const runQueries = (collection: CollectionName, queryStrings: string[] = []) => {
+    const queries = queryStrings.map((query) => JSON.parse(query) as QueryDescription);
+
+    let results = [...documents[collection].values()].filter((document) =>
+        queries
+            .filter((query) => FILTER_METHODS.has(query.method))
+            .every((query) => matches(document, query))
+    );
+
+    queries
+        .filter((query) => query.method === "orderAsc" || query.method === "orderDesc")
+        .reverse()
+        .forEach((query) => {
+            const direction = query.method === "orderAsc" ? 1 : -1;
+            const attribute = query.attribute ?? "$createdAt";
+            results = [...results].sort((a, b) => direction * compareValues(a[attribute], b[attribute]));
+        });
+
+    return {
+        total: results.length,
+        documents: paginate(collection, results, queries).map((document) => expand(collection, document)),
+    };
+};
+
+const createStore = (collection: CollectionName): DocumentStore => ({
+    get: async (documentId) => {
+        const document = documents[collection].get(documentId);
+        if (!document) throw notFound(collection, documentId);
+
+        return expand(collection, document);
+    },
+    list: async (queries) => runQueries(collection, queries),
+    create: async (data, documentId = ID.unique()) => {
+        if (documents[collection].has(documentId)) throw duplicate();
+
+        const document = toStoredDocument(collection, {
+            ...normalizeRelations(collection, data),
+            $id: documentId,
+        });
+        assertUnique(collection, document);
+        documents[collection].set(document.$id, document);
+        emit({ collection, action: "create", document });
+
+        return expand(collection, document);
+    },
+    update: async (documentId, data) => {
+        const current = documents[collection].get(documentId);
+        if (!current) throw notFound(collection, documentId);
+
+        const document = {
+            ...current,
+            ...normalizeRelations(collection, data),
+            $updatedAt: timestamp(),
+        };
+        assertUnique(collection, document);
+        documents[collection].set(documentId, document);
+        emit({ collection, action: "update", document });
+
+        return expand(collection, document);
+    },
+    delete: async (documentId) => {
+        const document = documents[collection].get(documentId);
+        if (!document) throw notFound(collection, documentId);
+
+        documents[collection].delete(documentId);
+        emit({ collection, action: "delete", document });
+
+        return {};
+    },
+});
+
+const toUser = (account: (typeof accounts)[number]): Models.User<Models.Preferences> => ({
+    $id: account.$id,
+    $createdAt: "",
+    $updatedAt: "",
+    name: account.name,
+    registration: "",
+    status: true,
+    labels: [],
+    passwordUpdate: "",
+    email: account.email,
+    phone: "",
+    emailVerification: false,
+    phoneVerification: false,
+    mfa: false,
+    prefs: {},
+    targets: [],
+    accessedAt: "",
+});
+
+// AuthContext reads cookieFallback to decide whether a session may exist, so keep it in step
+const getSessionAccountId = (): string | undefined => {
+    try {
+        return JSON.parse(localStorage.getItem(SESSION_KEY) ?? "{}").memorySession;
+    }
+    catch {
+        return undefined;
+    }
+};
+
+const initialsAvatar = (name: string) => {
+    const initials = name
+        .split(" ")
+        .map((part) => part[0])
+        .join("")
+        .slice(0, 2)
+        .toUpperCase();
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="100" height="100"><rect width="100" height="100" fill="#877EFF"/><text x="50" y="50" dy=".35em" text-anchor="middle" font-family="Inter, sans-serif" font-size="40" fill="#FFFFFF">${initials}</text></svg>`;
+
+    return new URL(`data:image/svg+xml,${encodeURIComponent(svg)}`);
+};
+
+export const memoryBackend: SnapgramBackend = {
+    accounts: {
+        create: async (email, password, name) => {
+            if (accounts.some((account) => account.email === email)) {
+                throw new AppwriteException(
+                    "A user with the same id, email, or phone already exists in this project.",
+                    409,
+                    "user_already_exists"
+                );
+            }
+            const account = { $id: ID.unique(), email, password, name };
+            accounts.push(account);
+
+            return toUser(account);
+        },
+        get: async () => {
+            const account = accounts.find(({ $id }) => $id === getSessionAccountId());
+            if (!account) {
+                throw new AppwriteException("User (role: guests) missing scope (account)", 401, "general_unauthorized_scope");
+            }
+
+            return toUser(account);
+        },
+        createSession: async (email, password) => {
+            const account = accounts.find((candidate) => candidate.email === email && candidate.password === password);
+            if (!account) {
+                throw new AppwriteException(
+                    "Invalid credentials. Please check the email and password.",
+                    401,
+                    "user_invalid_credentials"
+                );
+            }
+            localStorage.setItem(SESSION_KEY, JSON.stringify({ memorySession: account.$id }));
+
+            return { $id: ID.unique(), userId: account.$id, current: true } as Models.Session;
+        },
+        deleteSession: async () => {
+            localStorage.setItem(SESSION_KEY, "[]");
+            return {};
+        },
+    },
+    avatars: {
+        getInitials: initialsAvatar,
+    },
+    files: {
+        create: async (file, { fileId, onProgress } = {}) => {
+            const $id = fileId ?? ID.unique();
+            const model: Models.File = {
+                $id,
+                bucketId: "memory",
+                $createdAt: timestamp(),
+                $updatedAt: timestamp(),
+                $permissions: [],
+                name: file.name,
+                signature: "",
+                mimeType: file.type,
+                sizeOriginal: file.size,
+                chunksTotal: 1,
+                chunksUploaded: 1,
+            };
+            files.set($id, { file, url: URL.createObjectURL(file), model });
+            onProgress?.({ uploaded: file.size, total: file.size });
+
+            return model;
+        },
+        // Object URLs cannot be resized, so every width gets the original
+        getPreview: (fileId) => {
+            const stored = files.get(fileId);
+            if (!stored) throw notFound("files", fileId);
+
+            return new URL(stored.url);
+        },
+        // Object URLs serve the file as it is, so a view is the same as a preview
+        getView: (fileId) => memoryBackend.files.getPreview(fileId),
+        delete: async (fileId) => {
+            const stored = files.get(fileId);
+            if (stored) {
+                URL.revokeObjectURL(stored.url);
+                files.delete(fileId);
+            }
+            return {};
+        },
+        list: async (queries = []) => {
+            const models = [...files.values()].map(({ model }) => model);
+
+            return {
+                total: models.length,
+                files: paginate("files", models, queries.map((query) => JSON.parse(query) as QueryDescription)),
+            };
+        },
+    },
+    collections: Object.fromEntries(
+        COLLECTIONS.map((collection) => [collection, createStore(collection)])
+    ) as Record<CollectionName, DocumentStore>,
+    subscribe: (collections, callback) => {
+        const listener = (event: BackendEvent) => {
+            if (collections.includes(event.collection)) callback(event);
+        };
+        listeners.add(listener);
+
+        return () => {
+            listeners.delete(listener);
+        };
+    },
+};
@@ -0,0 +1,100 @@
+import { DocumentData } from "./types";
+
+// Demo data for the in-memory backend, sign in with demo@snapgram.dev / password123
+export const seedAccounts = [
+    { $id: "account-demo", email: "demo@snapgram.dev", password: "password123", name: "Demo User" },
+    { $id: "account-ada", email: "ada@snapgram.dev", password: "password123", name: "Ada Lovelace" },
+    { $id: "account-alan", email: "alan@snapgram.dev", password: "password123", name: "Alan Turing" },
+];
+
+export const seedDocuments: Record<string, (DocumentData & { $id: string })[]> = {
+    users: [
+        {
+            $id: "user-demo",
+            accountId: "account-demo",
+            name: "Demo User",
+            username: "demo",
+            email: "demo@snapgram.dev",
+            bio: "Exploring Snapgram without a backend.",
+            imageUrl: "/assets/images/profile.png",
+            imageId: null,
+        },
+        {
+            $id: "user-ada",
+            accountId: "account-ada",
+            name: "Ada Lovelace",
+            username: "ada",
+            email: "ada@snapgram.dev",
+            bio: "Poetical science.",
+            imageUrl: "/assets/icons/profile-placeholder.svg",
+            imageId: null,
+        },
+        {
+            $id: "user-alan",
+            accountId: "account-alan",
+            name: "Alan Turing",
+            username: "alan",
+            email: "alan@snapgram.dev",
+            bio: "Can machines think?",
+            imageUrl: "/assets/icons/profile-placeholder.svg",
+            imageId: null,
+        },
+    ],
+    posts: [
+        {
+            $id: "post-1",
+            creator: "user-ada",
+            caption: "Notes on the analytical engine, with @alan",
+            imageUrl: "/assets/images/side-img.svg",
+            imageId: "seed-image",
+            imageUrls: ["/assets/images/side-img.svg", "/assets/images/profile.png"],
+            imageIds: ["seed-image", "seed-image-2"],
+            location: "London",
+            tags: ["math", "engines"],
+            likesCount: 1,
+            commentsCount: 1,
+        },
+        {
+            $id: "post-2",
+            creator: "user-alan",
+            caption: "Morning run before breaking a few codes",
+            imageUrl: "/assets/images/side-img.svg",
+            imageId: "seed-image",
+            location: "Bletchley Park",
+            tags: ["running", "puzzles"],
+            likesCount: 2,
+        },
+        {
+            $id: "post-3",
+            creator: "user-demo",
+            caption: "First post from the offline backend",
+            imageUrl: "/assets/images/side-img.svg",
+            imageId: "seed-image",
+            location: "Localhost",
+            tags: ["hello"],
+            likesCount: 0,
+        },
+    ],
+    saves: [
+        { $id: "save-1", userId: "user-demo", user: "user-demo", post: "post-1" },
+    ],
+    likes: [
+        { $id: "like-1", userId: "user-alan", postId: "post-1" },
+        { $id: "like-2", userId: "user-ada", postId: "post-2" },
+        { $id: "like-3", userId: "user-demo", postId: "post-2" },
+    ],
+    follows: [
+        { $id: "follow-1", followerId: "user-demo", followingId: "user-ada" },
+        { $id: "follow-2", followerId: "user-ada", followingId: "user-alan" },
+    ],
+    comments: [
+        {
+            $id: "comment-1",
+            postId: "post-1",
+            creator: "user-alan",
+            content: "Beautiful diagrams!",
+            parentId: null,
+        },
+    ],
+    notifications: [],
+};
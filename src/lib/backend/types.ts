@@ -0,0 +1,59 @@
+import { Models } from "appwrite";
+import { IUploadProgress } from "@/types";
+
+export type CollectionName =
+    | "users"
+    | "posts"
+    | "saves"
+    | "likes"
+    | "follows"
+    | "comments"
+    | "notifications"
+    | "savedCollections"
+    | "searches";
+
+export type DocumentData = Record<string, unknown>;
+
+// Queries are Appwrite query strings built with `Query`, whatever the implementation
+export type DocumentStore = {
+    get: (documentId: string) => Promise<Models.Document>;
+    list: (queries?: string[]) => Promise<Models.DocumentList<Models.Document>>;
+    // A given id restores a deleted document under the id other documents still point at
+    create: (data: DocumentData, documentId?: string) => Promise<Models.Document>;
+    update: (documentId: string, data: DocumentData) => Promise<Models.Document>;
+    delete: (documentId: string) => Promise<object>;
+};
+
+export type BackendEvent = {
+    collection: CollectionName;
+    action: "create" | "update" | "delete";
+    document: Models.Document;
+};
+
+export interface SnapgramBackend {
+    accounts: {
+        create: (email: string, password: string, name: string) => Promise<Models.User<Models.Preferences>>;
+        get: () => Promise<Models.User<Models.Preferences>>;
+        createSession: (email: string, password: string) => Promise<Models.Session>;
+        deleteSession: () => Promise<object>;
+    };
+    avatars: {
+        getInitials: (name: string) => URL;
+    };
+    files: {
+        // Creating a file under an id that is partly uploaded resumes after its last stored chunk
+        create: (
+            file: File,
+            options?: { fileId?: string; onProgress?: (progress: IUploadProgress) => void }
+        ) => Promise<Models.File>;
+        // Scaled to the given width, keeping the aspect ratio, when there is one
+        getPreview: (fileId: string, width?: number) => URL;
+        // The original file, for media that cannot be previewed as an image
+        getView: (fileId: string) => URL;
+        delete: (fileId: string) => Promise<object>;
+        // Queries are limited to paging, in the order the files were created
+        list: (queries?: string[]) => Promise<Models.FileList>;
+    };
+    collections: Record<CollectionName, DocumentStore>;
+    subscribe: (collections: CollectionName[], callback: (event: BackendEvent) => void) => () => void;
+}
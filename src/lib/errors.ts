@@ -0,0 +1,110 @@
+import { AppwriteException } from "appwrite";
+
+export type AppErrorKind =
+  | "auth"
+  | "validation"
+  | "not-found"
+  | "permission"
+  | "conflict"
+  | "rate-limit"
+  | "network"
+  | "cancelled"
+  // A write that failed halfway and could not be fully undone
+  | "incomplete"
+  | "unknown";
+
+export class AppError extends Error {
+  kind: AppErrorKind;
+  // Backend error type, e.g. "user_invalid_credentials", when there is one
+  type?: string;
+  // HTTP status of the backend response, when there was one
+  code?: number;
+
+  constructor(kind: AppErrorKind, message: string, type?: string, code?: number) {
+    super(message);
+    this.name = "AppError";
+    this.kind = kind;
+    this.type = type;
+    this.code = code;
+  }
+}
+
+// The SDK reports a code of 0 when the response could not be read at all
+const STATUS_KINDS: Record<number, AppErrorKind> = {
+  0: "network",
+  400: "validation",
+  401: "auth",
+  403: "permission",
+  404: "not-found",
+  409: "conflict",
+  429: "rate-limit",
+  502: "network",
+  503: "network",
+  504: "network",
+};
+
+// Backend error types whose status code alone would point at the wrong kind
+const TYPE_KINDS: Record<string, AppErrorKind> = {
+  user_session_already_exists: "conflict",
+};
+
+// What browsers and Node put in the TypeError fetch rejects with when the request never reaches the server
+const FETCH_FAILURE_MESSAGES = [
+  "Failed to fetch",
+  "NetworkError when attempting to fetch resource",
+  "Load failed",
+  "fetch failed",
+];
+
+// Normalizes anything thrown by the SDK, fetch or our own code into an AppError
+export function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) return error;
+
+  if (error instanceof AppwriteException) {
+    const kind = TYPE_KINDS[error.type] ?? STATUS_KINDS[error.code] ?? "unknown";
+    return new AppError(kind, error.message, error.type, error.code || undefined);
+  }
+
+  // An AbortSignal rejects with an AbortError once the user cancels
+  if (error instanceof DOMException && error.name === "AbortError") {
+    return new AppError("cancelled", error.message);
+  }
+
+  // Any other TypeError is a bug in our own code, not a connection problem
+  if (error instanceof TypeError && FETCH_FAILURE_MESSAGES.some((message) => error.message.includes(message))) {
+    return new AppError("network", error.message);
+  }
+
+  if (error instanceof Error && error.message) {
+    return new AppError("unknown", error.message);
+  }
+
+  return new AppError("unknown", "Something went wrong.");
+}
+
+export const ERROR_MESSAGES: Record<AppErrorKind, string> = {
+  auth: "Your session has expired. Please sign in again.",
+  validation: "Some of the details are not valid.",
+  "not-found": "We couldn't find what you were looking for.",
+  permission: "You don't have permission to do that.",
+  conflict: "That already exists.",
+  "rate-limit": "Too many requests. Please wait a moment and try again.",
+  network: "Can't reach the server. Check your connection and try again.",
+  cancelled: "Cancelled.",
+  incomplete: "That only partly went through and couldn't be undone. Refresh to see where things stand.",
+  unknown: "Something went wrong. Please try again.",
+};
+
+export function getErrorMessage(
+  error: unknown,
+  overrides: Partial<Record<AppErrorKind, string>> = {}
+) {
+  const { kind } = toAppError(error);
+  return overrides[kind] ?? ERROR_MESSAGES[kind];
+}
+
+// Only failures that may go away on their own are worth retrying, a server error included
+export const isRetryableError = (error: unknown) => {
+  const { kind, code } = toAppError(error);
+  return kind === "network" || kind === "rate-limit" || (code !== undefined && code >= 500);
+};
@@ -0,0 +1,192 @@
+// Crop, rotation and colour adjustments for images before they are uploaded
+
+export type AspectPreset = "free" | "1:1" | "4:5" | "16:9";
+
+export const ASPECT_PRESETS: { value: AspectPreset; label: string; ratio?: number }[] = [
+  { value: "free", label: "Free" },
+  { value: "1:1", label: "1:1", ratio: 1 },
+  { value: "4:5", label: "4:5", ratio: 4 / 5 },
+  { value: "16:9", label: "16:9", ratio: 16 / 9 },
+];
+
+// Position and size as fractions of the turned image, so they survive scaling the preview
+export type CropArea = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type CropHandle = "nw" | "ne" | "sw" | "se";
+
+// 1 leaves a channel as it is, matching the CSS filter functions of the same name
+export type ImageAdjustments = {
+  brightness: number;
+  contrast: number;
+  saturation: number;
+};
+
+export type ImageEdits = {
+  // Quarter turns clockwise
+  rotation: number;
+  flipX: boolean;
+  flipY: boolean;
+  crop: CropArea;
+  adjustments: ImageAdjustments;
+};
+
+export const DEFAULT_ADJUSTMENTS: ImageAdjustments = { brightness: 1, contrast: 1, saturation: 1 };
+
+export const FILTER_PRESETS: { name: string; adjustments: ImageAdjustments }[] = [
+  { name: "Original", adjustments: DEFAULT_ADJUSTMENTS },
+  { name: "Vivid", adjustments: { brightness: 1.05, contrast: 1.15, saturation: 1.4 } },
+  { name: "Fade", adjustments: { brightness: 1.1, contrast: 0.8, saturation: 0.8 } },
+  { name: "Dramatic", adjustments: { brightness: 0.95, contrast: 1.35, saturation: 1.1 } },
+  { name: "Mono", adjustments: { brightness: 1, contrast: 1.1, saturation: 0 } },
+];
+
+const MIN_CROP_SIZE = 0.1;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// The CSS equivalent of applyAdjustments, cheap enough to preview on every slider move
+export const getAdjustmentsFilter = ({ brightness, contrast, saturation }: ImageAdjustments) =>
+  `brightness(${brightness}) contrast(${contrast}) saturate(${saturation})`;
+
+// Turns a width:height ratio in pixels into one between crop fractions of an image this size
+const toCropRatio = (ratio: number, width: number, height: number) => (ratio * height) / width;
+
+// The largest crop of the given ratio centred on the image, or the whole image for a free crop
+export const getCenteredCrop = (width: number, height: number, ratio?: number): CropArea => {
+  if (!ratio) return { x: 0, y: 0, width: 1, height: 1 };
+
+  const cropRatio = toCropRatio(ratio, width, height);
+  const cropWidth = Math.min(1, cropRatio);
+  const cropHeight = cropWidth / cropRatio;
+
+  return { x: (1 - cropWidth) / 2, y: (1 - cropHeight) / 2, width: cropWidth, height: cropHeight };
+};
+
+export const moveCrop = (crop: CropArea, dx: number, dy: number): CropArea => ({
+  ...crop,
+  x: clamp(crop.x + dx, 0, 1 - crop.width),
+  y: clamp(crop.y + dy, 0, 1 - crop.height),
+});
+
+// Drags one corner while the opposite one stays put, keeping the ratio when there is one
+export const resizeCrop = (
+  crop: CropArea,
+  handle: CropHandle,
+  dx: number,
+  dy: number,
+  imageSize: { width: number; height: number },
+  ratio?: number
+): CropArea => {
+  const fromLeft = handle.includes("w");
+  const fromTop = handle.includes("n");
+  const fixedX = fromLeft ? crop.x + crop.width : crop.x;
+  const fixedY = fromTop ? crop.y + crop.height : crop.y;
+  const maxWidth = fromLeft ? fixedX : 1 - fixedX;
+  const maxHeight = fromTop ? fixedY : 1 - fixedY;
+
+  let width = clamp(crop.width + (fromLeft ? -dx : dx), MIN_CROP_SIZE, maxWidth);
+  let height = clamp(crop.height + (fromTop ? -dy : dy), MIN_CROP_SIZE, maxHeight);
+
+  if (ratio) {
+    const cropRatio = toCropRatio(ratio, imageSize.width, imageSize.height);
+    height = width / cropRatio;
+    if (height > maxHeight) {
+      height = maxHeight;
+      width = height * cropRatio;
+    }
+  }
+
+  return {
+    x: fromLeft ? fixedX - width : fixedX,
+    y: fromTop ? fixedY - height : fixedY,
+    width,
+    height,
+  };
+};
+
+export const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    // Uploaded images come from the storage host, which has to allow reading them back
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("The image could not be loaded."));
+    image.src = url;
+  });
+
+// Draws the image turned and mirrored, scaled down to fit maxSize when given
+export const drawTransformed = (
+  image: HTMLImageElement,
+  { rotation, flipX, flipY }: Pick<ImageEdits, "rotation" | "flipX" | "flipY">,
+  maxSize = Infinity
+) => {
+  const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.round(image.naturalWidth * scale);
+  const height = Math.round(image.naturalHeight * scale);
+  const isSideways = rotation % 2 === 1;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = isSideways ? height : width;
+  canvas.height = isSideways ? width : height;
+
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported.");
+
+  context.translate(canvas.width / 2, canvas.height / 2);
+  context.rotate((rotation * Math.PI) / 2);
+  context.scale(flipX ? -1 : 1, flipY ? -1 : 1);
+  context.drawImage(image, -width / 2, -height / 2, width, height);
+
+  return canvas;
+};
+
+// Pixel version of the CSS brightness, contrast and saturate filters, applied in that order
+export const applyAdjustments = (imageData: ImageData, { brightness, contrast, saturation }: ImageAdjustments) => {
+  const { data } = imageData;
+  const channel = (value: number) => clamp(((clamp(value * brightness, 0, 255) - 128) * contrast) + 128, 0, 255);
+
+  for (let i = 0; i < data.length; i += 4) {
+    const r = channel(data[i]);
+    const g = channel(data[i + 1]);
+    const b = channel(data[i + 2]);
+
+    data[i] = (0.213 + 0.787 * saturation) * r + (0.715 - 0.715 * saturation) * g + (0.072 - 0.072 * saturation) * b;
+    data[i + 1] = (0.213 - 0.213 * saturation) * r + (0.715 + 0.285 * saturation) * g + (0.072 - 0.072 * saturation) * b;
+    data[i + 2] = (0.213 - 0.213 * saturation) * r + (0.715 - 0.715 * saturation) * g + (0.072 + 0.928 * saturation) * b;
+  }
+};
+
+// Renders every edit at full resolution and saves the result as a new file
+export const exportEditedImage = async (url: string, edits: ImageEdits, fileName: string) => {
+  const image = await loadImage(url);
+  const turned = drawTransformed(image, edits);
+
+  const { crop } = edits;
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(crop.width * turned.width));
+  canvas.height = Math.max(1, Math.round(crop.height * turned.height));
+
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported.");
+
+  context.drawImage(
+    turned,
+    crop.x * turned.width, crop.y * turned.height, canvas.width, canvas.height,
+    0, 0, canvas.width, canvas.height
+  );
+
+  const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+  applyAdjustments(imageData, edits.adjustments);
+  context.putImageData(imageData, 0, 0);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", 0.92));
+  if (!blob) throw new Error("The edited image could not be saved.");
+
+  const name = fileName.replace(/\.[^.]+$/, "") + ".jpg";
+  return new File([blob], name, { type: "image/jpeg" });
+};
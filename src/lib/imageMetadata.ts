@@ -0,0 +1,278 @@
+import { IPhotoLocation } from "@/types";
+
+// Reads and removes EXIF and XMP metadata in JPEG, PNG and WebP files without re-encoding them.
+// HEIC files never reach this point as they are converted before upload.
+
+type Container = "jpeg" | "png" | "webp";
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_GPS_INFO = 0x8825;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+const EXIF_HEADER = "Exif\0\0";
+const XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+
+// PNG chunks that carry metadata rather than pixels or colour information
+const PNG_METADATA_CHUNKS = ["eXIf", "tEXt", "iTXt", "zTXt", "tIME"];
+const WEBP_METADATA_CHUNKS = ["EXIF", "XMP "];
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const detectContainer = (bytes: Uint8Array): Container | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return "jpeg";
+  if (readAscii(bytes, 1, 3) === "PNG") return "png";
+  if (readAscii(bytes, 0, 4) === "RIFF" && readAscii(bytes, 8, 4) === "WEBP") return "webp";
+  return null;
+};
+
+type JpegSegment = { marker: number; start: number; end: number };
+
+// Segments up to the start of the image data, after which there is nothing but pixels
+const readJpegSegments = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) throw new Error("Malformed JPEG segment.");
+    const marker = bytes[offset + 1];
+
+    // Fill bytes and markers that stand alone without a length
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      segments.push({ marker, start: offset, end: offset + 2 });
+      offset += 2;
+      continue;
+    }
+    if (marker === 0xda) break;
+
+    const end = offset + 2 + view.getUint16(offset + 2);
+    segments.push({ marker, start: offset, end });
+    offset = end;
+  }
+
+  return { segments, dataStart: offset };
+};
+
+const isExifSegment = (bytes: Uint8Array, { marker, start }: JpegSegment) =>
+  marker === 0xe1 && readAscii(bytes, start + 4, EXIF_HEADER.length) === EXIF_HEADER;
+
+const isXmpSegment = (bytes: Uint8Array, { marker, start }: JpegSegment) =>
+  marker === 0xe1 && readAscii(bytes, start + 4, XMP_HEADER.length) === XMP_HEADER;
+
+type RiffChunk = { type: string; start: number; end: number };
+
+const readRiffChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const size = view.getUint32(offset + 4, true);
+    // Chunks are padded to an even length
+    const end = offset + 8 + size + (size % 2);
+    chunks.push({ type: readAscii(bytes, offset, 4), start: offset, end });
+    offset = end;
+  }
+
+  return chunks;
+};
+
+type PngChunk = { type: string; start: number; end: number };
+
+const readPngChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+
+  for (let offset = 8; offset + 12 <= bytes.length;) {
+    // Length, type, data and CRC
+    const end = offset + 12 + view.getUint32(offset);
+    chunks.push({ type: readAscii(bytes, offset + 4, 4), start: offset, end });
+    offset = end;
+  }
+
+  return chunks;
+};
+
+// The TIFF structure holding the EXIF tags, wherever the container keeps it
+const findExif = (bytes: Uint8Array, container: Container) => {
+  if (container === "jpeg") {
+    const segment = readJpegSegments(bytes).segments.find((segment) => isExifSegment(bytes, segment));
+    return segment && bytes.subarray(segment.start + 4 + EXIF_HEADER.length, segment.end);
+  }
+
+  if (container === "png") {
+    const chunk = readPngChunks(bytes).find((chunk) => chunk.type === "eXIf");
+    return chunk && bytes.subarray(chunk.start + 8, chunk.end - 4);
+  }
+
+  const chunk = readRiffChunks(bytes).find((chunk) => chunk.type === "EXIF");
+  if (!chunk) return undefined;
+
+  // Some encoders keep the JPEG style header in front of the TIFF data
+  const data = bytes.subarray(chunk.start + 8, chunk.end);
+  return readAscii(data, 0, EXIF_HEADER.length) === EXIF_HEADER ? data.subarray(EXIF_HEADER.length) : data;
+};
+
+const readTiff = (tiff: Uint8Array) => {
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const littleEndian = readAscii(tiff, 0, 2) === "II";
+  const uint16 = (offset: number) => view.getUint16(offset, littleEndian);
+  const uint32 = (offset: number) => view.getUint32(offset, littleEndian);
+
+  // Entries of an image file directory, by tag, pointing at where their value is stored
+  const readIfd = (offset: number) => {
+    const entries = new Map<number, { type: number; count: number; valueOffset: number }>();
+    const count = uint16(offset);
+
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      const type = uint16(entry + 2);
+      const entryCount = uint32(entry + 4);
+      // Values of up to four bytes sit in the entry itself
+      const size = ({ 1: 1, 2: 1, 3: 2, 4: 4, 5: 8 }[type] ?? 1) * entryCount;
+      entries.set(uint16(entry), { type, count: entryCount, valueOffset: size > 4 ? uint32(entry + 8) : entry + 8 });
+    }
+
+    return entries;
+  };
+
+  const readRationals = (offset: number, count: number) =>
+    Array.from({ length: count }, (_, i) => uint32(offset + i * 8) / (uint32(offset + i * 8 + 4) || 1));
+
+  return { uint16, uint32, readIfd, readRationals, ifd0: readIfd(uint32(4)), byte: (offset: number) => tiff[offset] };
+};
+
+type Tiff = ReturnType<typeof readTiff>;
+type Ifd = ReturnType<Tiff["readIfd"]>;
+
+const readOrientation = (tiff: Uint8Array) => {
+  const { uint16, ifd0 } = readTiff(tiff);
+  const entry = ifd0.get(TAG_ORIENTATION);
+  return entry ? uint16(entry.valueOffset) : 1;
+};
+
+// Degrees, minutes and seconds turned into signed decimal degrees
+const readCoordinate = (tiff: Tiff, gps: Ifd, valueTag: number, refTag: number, negativeRef: string) => {
+  const value = gps.get(valueTag);
+  const ref = gps.get(refTag);
+  if (!value || value.count < 3) return null;
+
+  const [degrees, minutes, seconds] = tiff.readRationals(value.valueOffset, 3);
+  const decimal = degrees + minutes / 60 + seconds / 3600;
+  // The reference is a single letter such as "N" or "S"
+  const isNegative = ref && String.fromCharCode(tiff.byte(ref.valueOffset)) === negativeRef;
+
+  return isNegative ? -decimal : decimal;
+};
+
+// The GPS position a photo was taken at, when the camera recorded one
+export async function readPhotoLocation(file: File): Promise<IPhotoLocation | null> {
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const container = detectContainer(bytes);
+    const exif = container && findExif(bytes, container);
+    if (!exif) return null;
+
+    const tiff = readTiff(exif);
+    const gpsPointer = tiff.ifd0.get(TAG_GPS_INFO);
+    if (!gpsPointer) return null;
+
+    const gps = tiff.readIfd(tiff.uint32(gpsPointer.valueOffset));
+    const latitude = readCoordinate(tiff, gps, TAG_GPS_LATITUDE, TAG_GPS_LATITUDE_REF, "S");
+    const longitude = readCoordinate(tiff, gps, TAG_GPS_LONGITUDE, TAG_GPS_LONGITUDE_REF, "W");
+    if (latitude === null || longitude === null || (latitude === 0 && longitude === 0)) return null;
+
+    return { latitude, longitude };
+  }
+  catch {
+    // Unreadable metadata only means there is no location to offer
+    return null;
+  }
+}
+
+export const formatPhotoLocation = ({ latitude, longitude }: IPhotoLocation) =>
+  `${Math.abs(latitude).toFixed(4)}° ${latitude < 0 ? "S" : "N"}, ${Math.abs(longitude).toFixed(4)}° ${longitude < 0 ? "W" : "E"}`;
+
+// A minimal EXIF segment holding nothing but the orientation, so turned photos stay upright
+const createOrientationSegment = (orientation: number) => {
+  const segment = new Uint8Array(36);
+  const view = new DataView(segment.buffer);
+
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, 34);
+  segment.set([...EXIF_HEADER].map((char) => char.charCodeAt(0)), 4);
+  // Big endian TIFF header, with its only directory right after it
+  segment.set([0x4d, 0x4d, 0x00, 0x2a], 10);
+  view.setUint32(14, 8);
+  view.setUint16(18, 1);
+  view.setUint16(20, TAG_ORIENTATION);
+  view.setUint16(22, 3);
+  view.setUint32(24, 1);
+  view.setUint16(28, orientation);
+  view.setUint32(32, 0);
+
+  return segment;
+};
+
+const stripJpeg = (bytes: Uint8Array) => {
+  const { segments, dataStart } = readJpegSegments(bytes);
+  const exif = segments.find((segment) => isExifSegment(bytes, segment));
+  const orientation = exif ? readOrientation(bytes.subarray(exif.start + 4 + EXIF_HEADER.length, exif.end)) : 1;
+
+  const kept = segments
+    .filter((segment) => !isExifSegment(bytes, segment) && !isXmpSegment(bytes, segment) && segment.marker !== 0xed)
+    .map(({ start, end }) => bytes.subarray(start, end));
+
+  return [
+    bytes.subarray(0, 2),
+    ...(orientation > 1 ? [createOrientationSegment(orientation)] : []),
+    ...kept,
+    bytes.subarray(dataStart),
+  ];
+};
+
+const stripPng = (bytes: Uint8Array) => [
+  bytes.subarray(0, 8),
+  ...readPngChunks(bytes)
+    .filter(({ type }) => !PNG_METADATA_CHUNKS.includes(type))
+    .map(({ start, end }) => bytes.subarray(start, end)),
+];
+
+const stripWebp = (bytes: Uint8Array) => {
+  const chunks = readRiffChunks(bytes)
+    .filter(({ type }) => !WEBP_METADATA_CHUNKS.includes(type))
+    .map(({ type, start, end }) => {
+      const chunk = bytes.slice(start, end);
+      // The extended header flags which metadata chunks follow
+      if (type === "VP8X") chunk[8] &= ~0x0c;
+      return chunk;
+    });
+
+  const header = bytes.slice(0, 12);
+  const size = chunks.reduce((total, chunk) => total + chunk.length, 4);
+  new DataView(header.buffer).setUint32(4, size, true);
+
+  return [header, ...chunks];
+};
+
+const STRIPPERS: Record<Container, (bytes: Uint8Array) => Uint8Array[]> = {
+  jpeg: stripJpeg,
+  png: stripPng,
+  webp: stripWebp,
+};
+
+// Drops location, device and time tags from a photo, keeping its pixels byte for byte
+export async function stripImageMetadata(file: File) {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const container = detectContainer(bytes);
+  if (!container) return file;
+
+  return new File(STRIPPERS[container](bytes), file.name, { type: file.type, lastModified: file.lastModified });
+}
@@ -0,0 +1,104 @@
+import { IMAGE_QUALITY, MAX_IMAGE_DIMENSION } from "@/constants";
+import { AppError } from "@/lib/errors";
+
+export type ImageProcessingTask =
+  | { task: "optimize"; file: File; heic: boolean; maxDimension: number; quality: number }
+  | { task: "blurhash"; file: File };
+
+export type ImageProcessingRequest = ImageProcessingTask & { id: number };
+
+// An optimize task answers with a null blob when the original is already as small as it is going to get
+export type ImageProcessingResponse =
+  | { id: number; result: Blob | string | null }
+  | { id: number; error: string };
+
+export type ProcessedImage = {
+  file: File;
+  originalSize: number;
+};
+
+// Vector and animated images would lose what makes them worth uploading
+const SKIPPED_TYPES = ["image/svg+xml", "image/gif"];
+
+const EXTENSIONS: Record<string, string> = {
+  "image/webp": ".webp",
+  "image/jpeg": ".jpg",
+};
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, { resolve: (result: Blob | string | null) => void; reject: (error: Error) => void }>();
+
+// Browsers often leave the type of HEIC files empty, so the extension counts too
+export const isHeicFile = (file: File) =>
+  /^image\/hei[cf]/.test(file.type) || /\.hei[cf]$/i.test(file.name);
+
+// One worker is started on first use and kept for every later image
+const getWorker = () => {
+  if (worker) return worker;
+
+  worker = new Worker(new URL("./imageProcessing.worker.ts", import.meta.url), { type: "module" });
+  worker.onmessage = (event: MessageEvent<ImageProcessingResponse>) => {
+    const response = event.data;
+    const request = pendingRequests.get(response.id);
+    if (!request) return;
+
+    pendingRequests.delete(response.id);
+    if ("error" in response) request.reject(new Error(response.error));
+    else request.resolve(response.result);
+  };
+  worker.onerror = () => {
+    pendingRequests.forEach(({ reject }) => reject(new Error("The image worker stopped.")));
+    pendingRequests.clear();
+    worker = null;
+  };
+
+  return worker;
+};
+
+const runInWorker = (task: ImageProcessingTask) =>
+  new Promise<Blob | string | null>((resolve, reject) => {
+    const id = nextRequestId++;
+    pendingRequests.set(id, { resolve, reject });
+
+    const request: ImageProcessingRequest = { ...task, id };
+    getWorker().postMessage(request);
+  });
+
+// Downscales and re-encodes a photo off the main thread, converting HEIC on the way
+export async function preprocessImage(file: File): Promise<ProcessedImage> {
+  const heic = isHeicFile(file);
+  if (SKIPPED_TYPES.includes(file.type)) return { file, originalSize: file.size };
+
+  try {
+    const blob = await runInWorker({
+      task: "optimize",
+      file,
+      heic,
+      maxDimension: MAX_IMAGE_DIMENSION,
+      quality: IMAGE_QUALITY,
+    });
+    if (!(blob instanceof Blob)) return { file, originalSize: file.size };
+
+    const name = file.name.replace(/\.[^.]+$/, "") + (EXTENSIONS[blob.type] ?? "");
+    return { file: new File([blob], name, { type: blob.type }), originalSize: file.size };
+  }
+  catch {
+    // Anything else can still go up as it is, but nothing could show a HEIC file
+    if (heic) throw new AppError("validation", "This HEIC photo could not be converted. Try exporting it as a JPEG.");
+
+    return { file, originalSize: file.size };
+  }
+}
+
+// A short string describing the colours of a photo, drawn blurred while the photo itself loads
+export async function computeBlurhash(file: File) {
+  try {
+    const blurhash = await runInWorker({ task: "blurhash", file });
+    return typeof blurhash === "string" ? blurhash : null;
+  }
+  catch {
+    // A missing placeholder is not worth failing an upload over
+    return null;
+  }
+}
@@ -0,0 +1,98 @@
+import { encode as encodeBlurhash } from "blurhash";
+import type { ImageProcessingRequest, ImageProcessingResponse } from "./imageProcessing";
+
+// Blurhash only keeps a handful of colours, so a tiny copy of the photo is plenty
+const BLURHASH_SIZE = 32;
+const BLURHASH_COMPONENTS = { x: 4, y: 3 };
+
+// Only Safari decodes HEIC itself, everywhere else libheif is loaded the first time it is needed
+const decodeHeic = async (file: File) => {
+  const { default: libheif } = await import("libheif-js/wasm-bundle");
+
+  const [image] = new libheif.HeifDecoder().decode(new Uint8Array(await file.arrayBuffer()));
+  if (!image) throw new Error("The HEIC file has no image in it.");
+
+  const width = image.get_width();
+  const height = image.get_height();
+  const imageData = new ImageData(width, height);
+
+  await new Promise<void>((resolve, reject) => {
+    image.display(imageData, (displayData) => (displayData ? resolve() : reject(new Error("The HEIC file could not be decoded."))));
+  });
+
+  return createImageBitmap(imageData);
+};
+
+const decode = async (file: File, heic: boolean) => {
+  try {
+    return await createImageBitmap(file);
+  }
+  catch (error) {
+    if (heic) return decodeHeic(file);
+    throw error;
+  }
+};
+
+// WebP where the browser can encode it, which Safari only pretends to do by handing back a PNG
+const encode = async (bitmap: ImageBitmap, width: number, height: number, quality: number) => {
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported.");
+
+  context.drawImage(bitmap, 0, 0, width, height);
+  const webp = await canvas.convertToBlob({ type: "image/webp", quality });
+  if (webp.type === "image/webp") return webp;
+
+  // JPEG has no transparency, so give it a white background instead of black
+  context.globalCompositeOperation = "destination-over";
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, width, height);
+  return canvas.convertToBlob({ type: "image/jpeg", quality });
+};
+
+const optimizeImage = async ({ file, heic, maxDimension, quality }: Extract<ImageProcessingRequest, { task: "optimize" }>) => {
+  const bitmap = await decode(file, heic);
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+  const width = Math.round(bitmap.width * scale);
+  const height = Math.round(bitmap.height * scale);
+
+  const blob = await encode(bitmap, width, height, quality);
+  bitmap.close();
+
+  // Re-encoding a small, already compressed photo can make it bigger
+  return !heic && scale === 1 && blob.size >= file.size ? null : blob;
+};
+
+const computeBlurhash = async (file: File) => {
+  const bitmap = await createImageBitmap(file);
+  const scale = BLURHASH_SIZE / Math.max(bitmap.width, bitmap.height);
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("Canvas is not supported.");
+
+  context.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const { data } = context.getImageData(0, 0, width, height);
+  return encodeBlurhash(data, width, height, BLURHASH_COMPONENTS.x, BLURHASH_COMPONENTS.y);
+};
+
+self.onmessage = async (event: MessageEvent<ImageProcessingRequest>) => {
+  const { id } = event.data;
+  let response: ImageProcessingResponse;
+
+  try {
+    const result = event.data.task === "optimize"
+      ? await optimizeImage(event.data)
+      : await computeBlurhash(event.data.file);
+    response = { id, result };
+  }
+  catch (error) {
+    response = { id, error: error instanceof Error ? error.message : "The image could not be processed." };
+  }
+
+  self.postMessage(response);
+};
@@ -1,8 +1,16 @@
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import React from 'react';
 import { ReactQueryDevtools } from "@tanstack/react-query-devtools";
+import { isRetryableError } from '@/lib/errors';
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // Retrying a missing document or a rejected session only delays the error
+      retry: (failureCount, error) => failureCount < 3 && isRetryableError(error),
+    },
+  },
+});
 
 export const QueryProvider = ({ children } : { children: React.ReactNode }) => {
   return (
@@ -0,0 +1,188 @@
+import { InfiniteData, QueryClient, QueryKey } from '@tanstack/react-query';
+import { IDocumentList, IPost, IPostSummary, IUserDocument } from '@/types';
+import { PostSchema, parseDocument } from '@/lib/validation';
+import { getRelatedId } from '@/lib/utils';
+import { QUERY_KEYS } from './queryKeys';
+
+type DocumentList = IDocumentList<IPost> | undefined;
+
+// Post lists that hold the same post documents as GET_POST_BY_ID
+const INFINITE_POST_LIST_KEYS = [
+    QUERY_KEYS.GET_INFINITE_POSTS,
+    QUERY_KEYS.GET_RECENT_POSTS,
+    QUERY_KEYS.GET_FOLLOWING_POSTS,
+    QUERY_KEYS.GET_USER_POSTS,
+    QUERY_KEYS.GET_TAG_POSTS,
+    QUERY_KEYS.GET_RELATED_POSTS,
+    QUERY_KEYS.GET_LIKED_POSTS,
+    QUERY_KEYS.GET_SAVED_POSTS,
+    QUERY_KEYS.SEARCH_TOP_POSTS,
+    QUERY_KEYS.SEARCH_POSTS,
+    QUERY_KEYS.SEARCH_PLACES,
+];
+
+// User documents that nest summaries of their posts and saves
+const USER_KEYS = [QUERY_KEYS.GET_CURRENT_USER, QUERY_KEYS.GET_USER_BY_ID];
+
+const POST_QUERY_KEYS = [
+    QUERY_KEYS.GET_POST_BY_ID,
+    ...INFINITE_POST_LIST_KEYS,
+    ...USER_KEYS,
+    QUERY_KEYS.GET_USER_LIKES,
+];
+
+export type CacheSnapshot = [QueryKey, unknown][];
+
+type PostUpdater = (post: IPost) => IPost | null;
+
+const updateDocumentList = (list: DocumentList, postId: string, updater: PostUpdater): DocumentList => {
+    if (!list) return list;
+
+    const documents = list.documents
+        .map((post) => (post.$id === postId ? updater(post) : post))
+        .filter((post): post is IPost => post !== null);
+
+    return {
+        ...list,
+        total: list.total - (list.documents.length - documents.length),
+        documents,
+    };
+};
+
+// Applies an update to every cached copy of a post, an updater returning null removes it
+export const updatePostInCache = (queryClient: QueryClient, postId: string, updater: PostUpdater) => {
+    queryClient.setQueryData<IPost | null | undefined>(
+        [QUERY_KEYS.GET_POST_BY_ID, postId],
+        (post) => (post ? updater(post) : post)
+    );
+
+    INFINITE_POST_LIST_KEYS.forEach((key) => {
+        queryClient.setQueriesData<InfiniteData<DocumentList>>(
+            { queryKey: [key] },
+            (data) => data && {
+                ...data,
+                pages: data.pages.map((page) => updateDocumentList(page, postId, updater)),
+            }
+        );
+    });
+};
+
+// Drops a post from a single infinite list, leaving its other cached copies alone
+export const removePostFromListInCache = (queryClient: QueryClient, queryKey: QueryKey, postId: string) => {
+    queryClient.setQueryData<InfiniteData<DocumentList>>(
+        queryKey,
+        (data) => data && {
+            ...data,
+            pages: data.pages.map((page) => updateDocumentList(page, postId, () => null)),
+        }
+    );
+};
+
+export const removePostFromCache = (queryClient: QueryClient, postId: string) => {
+    updatePostInCache(queryClient, postId, () => null);
+    queryClient.removeQueries({ queryKey: [QUERY_KEYS.GET_POST_BY_ID, postId] });
+};
+
+// Cancels in-flight refetches of every query holding a post and records their data for a rollback
+export const snapshotPostQueries = async (queryClient: QueryClient): Promise<CacheSnapshot> => {
+    await Promise.all(POST_QUERY_KEYS.map((key) => queryClient.cancelQueries({ queryKey: [key] })));
+
+    return POST_QUERY_KEYS.flatMap((key) => queryClient.getQueriesData({ queryKey: [key] }));
+};
+
+export const restoreSnapshot = (queryClient: QueryClient, snapshot?: CacheSnapshot) => {
+    snapshot?.forEach(([queryKey, data]) => queryClient.setQueryData<unknown>(queryKey, data));
+};
+
+// Any cached, fully expanded copy of a post
+export const findPostInCache = (queryClient: QueryClient, postId: string) => {
+    const post = queryClient.getQueryData<IPost | null>([QUERY_KEYS.GET_POST_BY_ID, postId]);
+    if (post) return post;
+
+    const lists: DocumentList[] = INFINITE_POST_LIST_KEYS.flatMap((key) =>
+        queryClient.getQueriesData<InfiniteData<DocumentList>>({ queryKey: [key] }).flatMap(([, data]) => data?.pages ?? [])
+    );
+
+    return lists
+        .flatMap((list) => list?.documents ?? [])
+        .find((document) => document.$id === postId);
+};
+
+export const updateCurrentUserInCache = (
+    queryClient: QueryClient,
+    updater: (user: IUserDocument) => IUserDocument
+) => {
+    queryClient.setQueryData<IUserDocument | undefined>(
+        [QUERY_KEYS.GET_CURRENT_USER],
+        (user) => user && updater(user)
+    );
+};
+
+// Shifts a count of a post everywhere it is cached, including the summaries nested in user documents
+export const adjustPostCountInCache = (
+    queryClient: QueryClient,
+    postId: string,
+    count: "likesCount" | "commentsCount",
+    delta: number
+) => {
+    const adjust = <T extends IPostSummary>(post: T): T =>
+        post.$id === postId ? { ...post, [count]: Math.max(post[count] + delta, 0) } : post;
+
+    updatePostInCache(queryClient, postId, adjust);
+
+    USER_KEYS.forEach((key) => {
+        queryClient.setQueriesData<IUserDocument | undefined>(
+            { queryKey: [key] },
+            (user) => user && { ...user, posts: user.posts?.map(adjust) }
+        );
+    });
+};
+
+// Merges a document received without its relationships into the cached, expanded copy
+export const mergeDocument = (cached: IPost, incoming: Record<string, unknown>): Record<string, unknown> => {
+    const current: Record<string, unknown> = { ...cached };
+    const merged: Record<string, unknown> = { ...cached };
+
+    Object.entries(incoming).forEach(([key, value]) => {
+        const existing = current[key];
+
+        // Plain string arrays like tags and imageUrls are values, not relationship ids
+        if (Array.isArray(value) && Array.isArray(existing) && existing.some((entry) => typeof entry !== "string")) {
+            merged[key] = value.map((item) => {
+                const itemId = getRelatedId(item);
+                if (typeof item !== "string" || !itemId) return item;
+                return existing.find((entry) => getRelatedId(entry) === itemId) ?? { $id: itemId };
+            });
+        }
+        else if (typeof value === "string" && getRelatedId(existing) === value) {
+            merged[key] = existing;
+        }
+        else {
+            merged[key] = value;
+        }
+    });
+
+    return merged;
+};
+
+// Patches every cached copy of a post with a raw realtime document. The merge goes through PostSchema like any
+// fetched post, so legacy nulls get their defaults again, and a copy that doesn't parse is refetched instead
+export const mergePostInCache = (queryClient: QueryClient, postId: string, incoming: Record<string, unknown>) => {
+    let isInvalid = false;
+
+    updatePostInCache(queryClient, postId, (post) => {
+        try {
+            return parseDocument(PostSchema, mergeDocument(post, incoming));
+        }
+        catch {
+            isInvalid = true;
+            return post;
+        }
+    });
+
+    if (isInvalid) {
+        [QUERY_KEYS.GET_POST_BY_ID, ...INFINITE_POST_LIST_KEYS].forEach((key) => {
+            queryClient.invalidateQueries({ queryKey: [key] });
+        });
+    }
+};
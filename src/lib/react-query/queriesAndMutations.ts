@@ -1,12 +1,28 @@
-import { INewPost, INewUser, IUpdatePost, IUpdateUser } from '@/types';
+import { IDocument, IDocumentList, IDocumentPage, IExploreFilters, ILike, INewComment, INewPost, INewUser, IPost, ISave, IUpdateComment, IUpdatePost, IUpdateUser } from '@/types';
 import {
     useQuery,
     useMutation,
     useQueryClient,
     useInfiniteQuery
 } from '@tanstack/react-query';
-import { createPost, createUserAccount, deletePost, deleteSavedPost, getCurrentUser, getInfinitePosts, getPostById, getRecentPosts, getUserById, getUserPosts, getUsers, likePost, savePost, searchPosts, signInAccount, signOutAccount, updatePost, updateUser } from '../appwrite/api';
+import { addRecentSearch, clearRecentSearches, createComment, createSavedCollection, createPost, createUserAccount, deleteComment, deletePost, deleteRecentSearch, deleteSavedCollection, deleteSavedPost, editComment, followUser, getComments, getCurrentUser, getFollowers, getFollowing, getFollowingPosts, getInfinitePosts, getLikedPosts, getNotifications, getPostById, getRecentPosts, getRecentSearches, getRelatedPosts, getRelatedTags, getSavedCollectionById, getSavedCollections, getSavedPosts, getSearchSuggestions, getTagPosts, getUnreadNotificationsCount, getUserById, getUserLikes, getUserPosts, getUsers, likePost, markAllNotificationsRead, markNotificationRead, moveSavedPost, savePost, searchPlaces, searchPosts, searchTags, searchTopPosts, searchUsers, signInAccount, signOutAccount, unfollowUser, unlikePost, updatePost, updateUser } from '../appwrite/api';
 import { QUERY_KEYS } from './queryKeys';
+import { adjustPostCountInCache, findPostInCache, removePostFromListInCache, restoreSnapshot, snapshotPostQueries, updateCurrentUserInCache } from './cacheUpdates';
+
+// Infinite list over any cursor-paginated fetch, each page carries the cursor of the next one
+export const useInfiniteDocuments = <T extends IDocument>({ queryKey, queryFn, enabled = true } : {
+    queryKey: unknown[];
+    queryFn: (pageParam: string | null) => Promise<IDocumentPage<T> | undefined>;
+    enabled?: boolean;
+}) => {
+    return useInfiniteQuery({
+        queryKey,
+        queryFn: ({ pageParam }) => queryFn(pageParam),
+        getNextPageParam: (lastPage) => lastPage?.cursor ?? null,
+        initialPageParam: null as string | null,
+        enabled,
+    });
+};
 
 export const useCreateUserAccount = () => {
     return useMutation({
@@ -34,79 +50,304 @@ export const useCreatePost = () => {
             queryClient.invalidateQueries({
                 queryKey: [QUERY_KEYS.GET_RECENT_POSTS],
             });
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_TAG_POSTS],
+            });
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_RELATED_TAGS],
+            });
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_RELATED_POSTS],
+            });
         },
     });
 };
 
 export const useGetRecentPosts = () => {
-    return useQuery({
+    return useInfiniteDocuments({
         queryKey: [QUERY_KEYS.GET_RECENT_POSTS],
-        queryFn: getRecentPosts,
+        queryFn: (pageParam) => getRecentPosts({ pageParam }),
     });
 };
 
 export const useLikePost = () => {
     const queryClient = useQueryClient();
     return useMutation({
-        mutationFn: ({
-            postId,
-            likesArray,
-        }: {
-            postId: string,
-            likesArray: string[];
-        }) => likePost(postId, likesArray),
-        onSuccess: (data) => {
+        mutationFn: ({ postId, userId }: { postId: string; userId: string }) => likePost(postId, userId),
+        onMutate: async ({ postId, userId }) => {
+            const snapshot = await snapshotPostQueries(queryClient);
+            const now = new Date().toISOString();
+
+            // Stands in for the like record until the real one is refetched
+            const optimisticLike: ILike = {
+                $id: `optimistic-${postId}`,
+                $collectionId: "",
+                $databaseId: "",
+                $createdAt: now,
+                $updatedAt: now,
+                $permissions: [],
+                userId,
+                postId,
+            };
+
+            adjustPostCountInCache(queryClient, postId, "likesCount", 1);
+            queryClient.setQueryData<IDocumentList<ILike> | undefined>(
+                [QUERY_KEYS.GET_USER_LIKES, userId],
+                (likes) => likes && {
+                    total: likes.total + 1,
+                    documents: [optimisticLike, ...likes.documents],
+                }
+            );
+
+            return { snapshot };
+        },
+        onError: (_error, _variables, context) => {
+            restoreSnapshot(queryClient, context?.snapshot);
+        },
+        onSettled: (_data, _error, { postId, userId }) => {
             queryClient.invalidateQueries({
-                queryKey: [QUERY_KEYS.GET_POST_BY_ID, data?.$id],
+                queryKey: [QUERY_KEYS.GET_POST_BY_ID, postId],
             });
             queryClient.invalidateQueries({
-                queryKey: [QUERY_KEYS.GET_RECENT_POSTS],
+                queryKey: [QUERY_KEYS.GET_USER_LIKES, userId],
+            });
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_LIKED_POSTS, userId],
+            });
+        },
+    });
+};
+
+export const useUnlikePost = () => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: ({ postId, userId }: { postId: string; userId: string }) => unlikePost(postId, userId),
+        onMutate: async ({ postId, userId }) => {
+            const snapshot = await snapshotPostQueries(queryClient);
+
+            adjustPostCountInCache(queryClient, postId, "likesCount", -1);
+            queryClient.setQueryData<IDocumentList<ILike> | undefined>(
+                [QUERY_KEYS.GET_USER_LIKES, userId],
+                (likes) => likes && {
+                    total: likes.total - 1,
+                    documents: likes.documents.filter((like) => like.postId !== postId),
+                }
+            );
+            removePostFromListInCache(queryClient, [QUERY_KEYS.GET_LIKED_POSTS, userId], postId);
+
+            return { snapshot };
+        },
+        onError: (_error, _variables, context) => {
+            restoreSnapshot(queryClient, context?.snapshot);
+        },
+        onSettled: (_data, _error, { postId, userId }) => {
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_POST_BY_ID, postId],
             });
             queryClient.invalidateQueries({
-                queryKey: [QUERY_KEYS.GET_POSTS],
+                queryKey: [QUERY_KEYS.GET_USER_LIKES, userId],
             });
             queryClient.invalidateQueries({
-                queryKey: [QUERY_KEYS.GET_CURRENT_USER],
+                queryKey: [QUERY_KEYS.GET_LIKED_POSTS, userId],
             });
         },
     });
 };
 
+export const useGetUserLikes = (userId?: string) => {
+    return useQuery({
+        queryKey: [QUERY_KEYS.GET_USER_LIKES, userId],
+        queryFn: () => getUserLikes(userId),
+        enabled: !!userId,
+    });
+};
+
+export const useGetLikedPosts = (userId?: string) => {
+    return useInfiniteDocuments({
+        queryKey: [QUERY_KEYS.GET_LIKED_POSTS, userId],
+        queryFn: (pageParam) => getLikedPosts({ userId, pageParam }),
+        enabled: !!userId,
+    });
+};
+
+export const useGetSavedPosts = (userId?: string, collectionId?: string) => {
+    return useInfiniteDocuments({
+        queryKey: [QUERY_KEYS.GET_SAVED_POSTS, userId, collectionId],
+        queryFn: (pageParam) => getSavedPosts({ userId, collectionId, pageParam }),
+        enabled: !!userId,
+    });
+};
+
 export const useSavePost = () => {
     const queryClient = useQueryClient();
     return useMutation({
-        mutationFn: ({ userId, postId }: {userId: string; postId: string }) => savePost(userId, postId),
-        onSuccess: () => {
+        mutationFn: ({ userId, postId, collectionId = null }: {userId: string; postId: string; collectionId?: string | null }) =>
+            savePost(userId, postId, collectionId),
+        onMutate: async ({ userId, postId, collectionId = null }) => {
+            const snapshot = await snapshotPostQueries(queryClient);
+            const now = new Date().toISOString();
+
+            // Stands in for the save record until the real one is refetched
+            const optimisticSave: ISave = {
+                $id: `optimistic-${postId}`,
+                $collectionId: "",
+                $databaseId: "",
+                $createdAt: now,
+                $updatedAt: now,
+                $permissions: [],
+                user: { $id: userId },
+                post: findPostInCache(queryClient, postId),
+                collectionId,
+            };
+
+            updateCurrentUserInCache(queryClient, (user) => ({
+                ...user,
+                save: [...(user.save ?? []), optimisticSave],
+            }));
+
+            return { snapshot };
+        },
+        // The real record takes the optimistic one's place right away, so unsaving before the refetch lands
+        // deletes a save that exists
+        onSuccess: (savedRecord, { postId }) => {
+            updateCurrentUserInCache(queryClient, (user) => ({
+                ...user,
+                save: user.save?.map((record) =>
+                    record.$id === `optimistic-${postId}` ? { ...savedRecord, post: savedRecord.post ?? record.post } : record
+                ),
+            }));
+        },
+        onError: (_error, _variables, context) => {
+            restoreSnapshot(queryClient, context?.snapshot);
+        },
+        onSettled: (_data, _error, { postId }) => {
             queryClient.invalidateQueries({
-                queryKey: [QUERY_KEYS.GET_RECENT_POSTS],
+                queryKey: [QUERY_KEYS.GET_POST_BY_ID, postId],
             });
-            queryClient.invalidateQueries({
-                queryKey: [QUERY_KEYS.GET_POSTS],
-            })
             queryClient.invalidateQueries({
                 queryKey: [QUERY_KEYS.GET_CURRENT_USER],
-            })
-        }
-    })
-}
+            });
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_SAVED_POSTS],
+            });
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_SAVED_COLLECTIONS],
+            });
+        },
+    });
+};
 
 export const useDeleteSavedPost = () => {
     const queryClient = useQueryClient();
     return useMutation({
         mutationFn: (savedRecordId: string) => deleteSavedPost(savedRecordId),
+        onMutate: async (savedRecordId) => {
+            const snapshot = await snapshotPostQueries(queryClient);
+
+            updateCurrentUserInCache(queryClient, (user) => ({
+                ...user,
+                save: user.save?.filter((record) => record.$id !== savedRecordId),
+            }));
+
+            return { snapshot };
+        },
+        onError: (_error, _variables, context) => {
+            restoreSnapshot(queryClient, context?.snapshot);
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_CURRENT_USER],
+            });
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_SAVED_POSTS],
+            });
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_SAVED_COLLECTIONS],
+            });
+        },
+    });
+};
+
+export const useMoveSavedPost = () => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: ({ savedRecordId, collectionId }: { savedRecordId: string; collectionId: string | null }) =>
+            moveSavedPost(savedRecordId, collectionId),
+        onMutate: async ({ savedRecordId, collectionId }) => {
+            const snapshot = await snapshotPostQueries(queryClient);
+
+            updateCurrentUserInCache(queryClient, (user) => ({
+                ...user,
+                save: user.save?.map((record) => (record.$id === savedRecordId ? { ...record, collectionId } : record)),
+            }));
+
+            return { snapshot };
+        },
+        onError: (_error, _variables, context) => {
+            restoreSnapshot(queryClient, context?.snapshot);
+        },
+        onSettled: () => {
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_CURRENT_USER],
+            });
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_SAVED_POSTS],
+            });
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_SAVED_COLLECTIONS],
+            });
+        },
+    });
+};
+
+export const useGetSavedCollections = (userId?: string) => {
+    return useQuery({
+        queryKey: [QUERY_KEYS.GET_SAVED_COLLECTIONS, userId],
+        queryFn: () => getSavedCollections(userId),
+        enabled: !!userId,
+    });
+};
+
+export const useGetSavedCollectionById = (collectionId?: string) => {
+    return useQuery({
+        queryKey: [QUERY_KEYS.GET_SAVED_COLLECTION_BY_ID, collectionId],
+        queryFn: () => getSavedCollectionById(collectionId),
+        enabled: !!collectionId,
+    });
+};
+
+export const useCreateSavedCollection = () => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: ({ userId, name }: { userId: string; name: string }) => createSavedCollection({ userId, name }),
         onSuccess: () => {
             queryClient.invalidateQueries({
-                queryKey: [QUERY_KEYS.GET_RECENT_POSTS],
+                queryKey: [QUERY_KEYS.GET_SAVED_COLLECTIONS],
+            });
+        },
+    });
+};
+
+export const useDeleteSavedCollection = () => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (collectionId: string) => deleteSavedCollection(collectionId),
+        onSuccess: (_data, collectionId) => {
+            queryClient.removeQueries({
+                queryKey: [QUERY_KEYS.GET_SAVED_COLLECTION_BY_ID, collectionId],
             });
             queryClient.invalidateQueries({
-                queryKey: [QUERY_KEYS.GET_POSTS],
-            })
+                queryKey: [QUERY_KEYS.GET_SAVED_COLLECTIONS],
+            });
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_SAVED_POSTS],
+            });
             queryClient.invalidateQueries({
                 queryKey: [QUERY_KEYS.GET_CURRENT_USER],
-            })
-        }
-    })
-}
+            });
+        },
+    });
+};
 
 export const useGetCurrentUser = () => {
     return useQuery({
@@ -131,6 +372,15 @@ export const useUpdatePost = () => {
             queryClient.invalidateQueries({
                 queryKey: [QUERY_KEYS.GET_POST_BY_ID, data?.$id],
             });
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_TAG_POSTS],
+            });
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_RELATED_TAGS],
+            });
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_RELATED_POSTS],
+            });
         },
     });
 };
@@ -138,81 +388,172 @@ export const useUpdatePost = () => {
 export const useDeletePost = () => {
     const queryClient = useQueryClient();
     return useMutation({
-        mutationFn: ({ postId, imageId } : { postId?: string; imageId: string}) => deletePost(postId, imageId),
+        mutationFn: ({ postId, imageIds, videoId } : { postId?: string; imageIds?: string[]; videoId?: string | null }) =>
+            deletePost(postId, imageIds, videoId),
         onSuccess: () => {
             queryClient.invalidateQueries({
                 queryKey: [QUERY_KEYS.GET_RECENT_POSTS]
             });
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_TAG_POSTS]
+            });
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_RELATED_TAGS]
+            });
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_RELATED_POSTS]
+            });
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_NOTIFICATIONS]
+            });
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_UNREAD_NOTIFICATIONS_COUNT]
+            });
         },
     });
 };
 
-// export const useGetPosts = () => {
-//     return useInfiniteQuery({
-//         queryKey: [QUERY_KEYS.GET_INFINITE_POSTS],
-//         queryFn: getInfinitePosts as any,
-//         getNextPageParam: (lastPage: any) => {
-//             if (lastPage && lastPage.documents.length === 0) {
-//               return null;
-//             }
-//             const lastId = lastPage.documents[lastPage?.documents.length - 1].$id;
-//             return lastId;
-//         },
-//         initialPageParam: null,
-//     });
-// };
-
-export const useGetPosts = () => {
-    return useInfiniteQuery({
-        queryKey: [QUERY_KEYS.GET_INFINITE_POSTS],
-        queryFn: getInfinitePosts,
-        getNextPageParam: (lastPage) => {
-            if (!lastPage || lastPage.documents.length === 0)
-                return null;
-            
-            const lastDocument = lastPage.documents[lastPage.documents.length - 1];
-            const lastId = lastDocument?.$id;
-  
-            if (!lastId)
-                return null;
-  
-            // Convert lastId to a number if it is numeric, otherwise handle the error
-            const numericLastId = parseInt(lastId, 10);
-            
-            if (isNaN(numericLastId))
-                return null;
-  
-            return numericLastId;
-            },
-            initialPageParam: 0, // Initialize with a number
-        }
-    );
+export const useGetInfinitePosts = (filters: IExploreFilters) => {
+    return useInfiniteDocuments({
+        queryKey: [QUERY_KEYS.GET_INFINITE_POSTS, filters],
+        queryFn: (pageParam) => getInfinitePosts({ pageParam, filters }),
+    });
 };
 
+export const useSearchTopPosts = (searchTerm: string) => {
+    return useInfiniteDocuments({
+        queryKey: [QUERY_KEYS.SEARCH_TOP_POSTS, searchTerm],
+        queryFn: (pageParam) => searchTopPosts({ searchTerm, pageParam }),
+        enabled: !!searchTerm,
+    });
+};
 
 export const useSearchPosts = (searchTerm: string) => {
-    return useQuery({
+    return useInfiniteDocuments({
         queryKey: [QUERY_KEYS.SEARCH_POSTS, searchTerm],
-        queryFn: () => searchPosts(searchTerm),
+        queryFn: (pageParam) => searchPosts({ searchTerm, pageParam }),
         enabled: !!searchTerm,
     });
 };
 
-export const useGetUsers = (limit?: number) => {
+export const useSearchPlaces = (searchTerm: string) => {
+    return useInfiniteDocuments({
+        queryKey: [QUERY_KEYS.SEARCH_PLACES, searchTerm],
+        queryFn: (pageParam) => searchPlaces({ searchTerm, pageParam }),
+        enabled: !!searchTerm,
+    });
+};
+
+export const useSearchUsers = (searchTerm: string) => {
+    return useInfiniteDocuments({
+        queryKey: [QUERY_KEYS.SEARCH_USERS, searchTerm],
+        queryFn: (pageParam) => searchUsers({ searchTerm, pageParam }),
+        enabled: !!searchTerm,
+    });
+};
+
+// Tag pages carry an offset rather than a document id as their cursor
+export const useSearchTags = (searchTerm: string) => {
+    return useInfiniteQuery({
+        queryKey: [QUERY_KEYS.SEARCH_TAGS, searchTerm],
+        queryFn: ({ pageParam }) => searchTags({ searchTerm, pageParam }),
+        getNextPageParam: (lastPage) => lastPage.cursor,
+        initialPageParam: null as string | null,
+        enabled: !!searchTerm,
+    });
+};
+
+export const useGetSearchSuggestions = (searchTerm: string) => {
     return useQuery({
-        queryKey: [QUERY_KEYS.GET_USERS],
-        queryFn: () => getUsers(limit),
+        queryKey: [QUERY_KEYS.GET_SEARCH_SUGGESTIONS, searchTerm],
+        queryFn: () => getSearchSuggestions(searchTerm),
+        enabled: !!searchTerm,
     });
 };
 
-export const useGetUserPosts = (userId?: string) => {
+export const useGetRecentSearches = (userId?: string) => {
     return useQuery({
+        queryKey: [QUERY_KEYS.GET_RECENT_SEARCHES, userId],
+        queryFn: () => getRecentSearches(userId),
+        enabled: !!userId,
+    });
+};
+
+export const useAddRecentSearch = () => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: ({ userId, query }: { userId: string; query: string }) => addRecentSearch(userId, query),
+        onSuccess: () => {
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_RECENT_SEARCHES],
+            });
+        },
+    });
+};
+
+export const useDeleteRecentSearch = () => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: ({ userId, searchId }: { userId: string; searchId: string }) => deleteRecentSearch(userId, searchId),
+        onSuccess: () => {
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_RECENT_SEARCHES],
+            });
+        },
+    });
+};
+
+export const useClearRecentSearches = () => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (userId: string) => clearRecentSearches(userId),
+        onSuccess: () => {
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_RECENT_SEARCHES],
+            });
+        },
+    });
+};
+
+export const useGetUsers = (limit?: number) => {
+    return useInfiniteDocuments({
+        queryKey: [QUERY_KEYS.GET_USERS, limit],
+        queryFn: (pageParam) => getUsers({ pageParam, limit }),
+    });
+};
+
+export const useGetUserPosts = (userId?: string) => {
+    return useInfiniteDocuments({
         queryKey: [QUERY_KEYS.GET_USER_POSTS, userId],
-        queryFn: () => getUserPosts(userId),
+        queryFn: (pageParam) => getUserPosts({ userId, pageParam }),
         enabled: !!userId,
     });
 };
 
+export const useGetTagPosts = (tag?: string) => {
+    return useInfiniteDocuments({
+        queryKey: [QUERY_KEYS.GET_TAG_POSTS, tag],
+        queryFn: (pageParam) => getTagPosts({ tag, pageParam }),
+        enabled: !!tag,
+    });
+};
+
+export const useGetRelatedPosts = (post?: IPost) => {
+    return useInfiniteDocuments({
+        queryKey: [QUERY_KEYS.GET_RELATED_POSTS, post?.$id],
+        queryFn: (pageParam) => getRelatedPosts({ post, pageParam }),
+        enabled: !!post,
+    });
+};
+
+export const useGetRelatedTags = (tag?: string) => {
+    return useQuery({
+        queryKey: [QUERY_KEYS.GET_RELATED_TAGS, tag],
+        queryFn: () => getRelatedTags(tag),
+        enabled: !!tag,
+    });
+};
+
 export const useGetUserById = (userId: string) => {
     return useQuery({
         queryKey: [QUERY_KEYS.GET_USER_BY_ID, userId],
@@ -234,4 +575,156 @@ export const useUpdateUser = () => {
             })
         }
     })
-}
\ No newline at end of file
+}
+
+export const useGetFollowers = (userId?: string) => {
+    return useQuery({
+        queryKey: [QUERY_KEYS.GET_FOLLOWERS, userId],
+        queryFn: () => getFollowers(userId),
+        enabled: !!userId,
+    });
+};
+
+export const useGetFollowing = (userId?: string) => {
+    return useQuery({
+        queryKey: [QUERY_KEYS.GET_FOLLOWING, userId],
+        queryFn: () => getFollowing(userId),
+        enabled: !!userId,
+    });
+};
+
+export const useFollowUser = () => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: ({ followerId, followingId }: { followerId: string; followingId: string }) =>
+            followUser(followerId, followingId),
+        onSuccess: () => {
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_FOLLOWERS],
+            });
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_FOLLOWING],
+            });
+        }
+    })
+}
+
+export const useUnfollowUser = () => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (followRecordId: string) => unfollowUser(followRecordId),
+        onSuccess: () => {
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_FOLLOWERS],
+            });
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_FOLLOWING],
+            });
+        }
+    })
+}
+
+export const useGetFollowingPosts = (userId?: string) => {
+    const { data: following } = useGetFollowing(userId);
+    const creatorIds = following?.documents.map((record) => record.followingId) ?? [];
+
+    return useInfiniteDocuments({
+        queryKey: [QUERY_KEYS.GET_FOLLOWING_POSTS, userId, creatorIds],
+        queryFn: (pageParam) => getFollowingPosts({ pageParam, creatorIds }),
+        enabled: creatorIds.length > 0,
+    });
+};
+
+export const useGetComments = (postId?: string, parentId?: string) => {
+    return useInfiniteDocuments({
+        queryKey: [QUERY_KEYS.GET_COMMENTS, postId, parentId],
+        queryFn: (pageParam) => getComments({ postId, parentId, pageParam }),
+        enabled: !!postId,
+    });
+};
+
+export const useCreateComment = () => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (comment: INewComment) => createComment(comment),
+        onSuccess: (data) => {
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_COMMENTS, data?.postId],
+            });
+            adjustPostCountInCache(queryClient, data.postId, "commentsCount", 1);
+        },
+    });
+};
+
+export const useEditComment = () => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (comment: IUpdateComment) => editComment(comment),
+        onSuccess: (data) => {
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_COMMENTS, data?.postId],
+            });
+        },
+    });
+};
+
+export const useDeleteComment = () => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: ({ commentId }: { commentId: string; postId: string }) => deleteComment(commentId),
+        onSuccess: (data, { postId }) => {
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_COMMENTS, postId],
+            });
+            // Its replies went with it
+            adjustPostCountInCache(queryClient, postId, "commentsCount", -data.deletedCount);
+        },
+    });
+};
+
+export const useGetNotifications = (userId?: string) => {
+    return useInfiniteDocuments({
+        queryKey: [QUERY_KEYS.GET_NOTIFICATIONS, userId],
+        queryFn: (pageParam) => getNotifications({ userId, pageParam }),
+        enabled: !!userId,
+    });
+};
+
+export const useGetUnreadNotificationsCount = (userId?: string) => {
+    return useQuery({
+        queryKey: [QUERY_KEYS.GET_UNREAD_NOTIFICATIONS_COUNT, userId],
+        queryFn: () => getUnreadNotificationsCount(userId),
+        enabled: !!userId,
+    });
+};
+
+export const useMarkNotificationRead = () => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (notificationId: string) => markNotificationRead(notificationId),
+        onSuccess: () => {
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_NOTIFICATIONS],
+            });
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_UNREAD_NOTIFICATIONS_COUNT],
+            });
+        },
+    });
+};
+
+export const useMarkAllNotificationsRead = () => {
+    const queryClient = useQueryClient();
+    return useMutation({
+        mutationFn: (userId: string) => markAllNotificationsRead(userId),
+        // Some may have been marked even if the batch failed part way
+        onSettled: () => {
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_NOTIFICATIONS],
+            });
+            queryClient.invalidateQueries({
+                queryKey: [QUERY_KEYS.GET_UNREAD_NOTIFICATIONS_COUNT],
+            });
+        },
+    });
+};
@@ -10,14 +10,42 @@ export enum QUERY_KEYS {
     GET_USERS = "getUsers",
     GET_USER_BY_ID = "getUserById",
 
+    // Like and Save Keys
+    GET_USER_LIKES = "getUserLikes",
+    GET_LIKED_POSTS = "getLikedPosts",
+    GET_SAVED_POSTS = "getSavedPosts",
+    GET_SAVED_COLLECTIONS = "getSavedCollections",
+    GET_SAVED_COLLECTION_BY_ID = "getSavedCollectionById",
+
+    // Follow Keys
+    GET_FOLLOWERS = "getFollowers",
+    GET_FOLLOWING = "getFollowing",
+
     // Post Keys
     GET_POSTS = "getPosts",
     GET_INFINITE_POSTS = "getInfinitePosts",
     GET_RECENT_POSTS = "getRecentPosts",
+    GET_FOLLOWING_POSTS = "getFollowingPosts",
     GET_POST_BY_ID = "getPostById",
     GET_USER_POSTS = "getUserPosts",
+    GET_TAG_POSTS = "getTagPosts",
+    GET_RELATED_TAGS = "getRelatedTags",
+    GET_RELATED_POSTS = "getRelatedPosts",
     GET_FILE_PREVIEW = "getFilePreview",
 
+    // Comment Keys
+    GET_COMMENTS = "getComments",
+
+    // Notification Keys
+    GET_NOTIFICATIONS = "getNotifications",
+    GET_UNREAD_NOTIFICATIONS_COUNT = "getUnreadNotificationsCount",
+
     // Search Keys
+    SEARCH_TOP_POSTS = "getSearchTopPosts",
     SEARCH_POSTS = "getSearchPosts",
+    SEARCH_PLACES = "getSearchPlaces",
+    SEARCH_USERS = "getSearchUsers",
+    SEARCH_TAGS = "getSearchTags",
+    GET_SEARCH_SUGGESTIONS = "getSearchSuggestions",
+    GET_RECENT_SEARCHES = "getRecentSearches",
 }
\ No newline at end of file
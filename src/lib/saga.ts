@@ -0,0 +1,61 @@
+import { AppError, toAppError } from "./errors";
+
+// Writes that span several backend calls, such as a storage upload followed by a document,
+// run as a saga: every step that succeeds registers how to undo it, and a failure undoes
+// the finished steps in reverse order before the original error is passed on.
+
+export type Saga = {
+  // Runs a step, remembering how to undo it should a later step fail
+  step: <T>(run: () => Promise<T>, compensate?: (result: T) => Promise<unknown>) => Promise<T>;
+  // Work that only makes sense once every step succeeded, such as removing files a post no longer uses
+  onComplete: (cleanup: () => Promise<unknown>) => void;
+};
+
+// Runs every task even when some fail, returning the failures
+const runAll = async (tasks: (() => Promise<unknown>)[]) => {
+  const failures: unknown[] = [];
+
+  for (const task of tasks) {
+    try {
+      await task();
+    }
+    catch (error) {
+      failures.push(error);
+    }
+  }
+
+  return failures;
+};
+
+export async function runSaga<T>(work: (saga: Saga) => Promise<T>): Promise<T> {
+  const compensations: (() => Promise<unknown>)[] = [];
+  const cleanups: (() => Promise<unknown>)[] = [];
+
+  const saga: Saga = {
+    step: async (run, compensate) => {
+      const result = await run();
+      if (compensate) compensations.push(() => compensate(result));
+      return result;
+    },
+    onComplete: (cleanup) => {
+      cleanups.push(cleanup);
+    },
+  };
+
+  let result: T;
+  try {
+    result = await work(saga);
+  }
+  catch (error) {
+    const failures = await runAll(compensations.reverse());
+    if (failures.length === 0) throw error;
+
+    // The write is left half done, which the user has to hear about rather than the original error alone
+    const { message } = toAppError(error);
+    throw new AppError("incomplete", `${message} Undoing it failed too: ${toAppError(failures[0]).message}`);
+  }
+
+  // The write itself succeeded, leftovers of a failed cleanup are unreferenced files the orphaned file sweep removes
+  await runAll(cleanups);
+  return result;
+}
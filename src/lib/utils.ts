@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { ILike, IPostImage, IPostSummary } from "@/types"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -7,6 +8,59 @@ export function cn(...inputs: ClassValue[]) {
 
 export const convertFileToUrl = (file: File) => URL.createObjectURL(file);
 
+// Some files never finish loading or seeking, and would otherwise hold up the upload forever
+const VIDEO_POSTER_TIMEOUT_MS = 10000;
+
+// Draws a frame from early in the clip onto a canvas and saves it as a JPEG poster
+export const captureVideoPoster = (file: File) =>
+  new Promise<File>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement("video");
+
+    let settled = false;
+    const finish = (error?: Error, poster?: File) => {
+      if (settled) return;
+      settled = true;
+
+      clearTimeout(timeout);
+      video.onerror = video.onloadeddata = video.onseeked = null;
+      video.removeAttribute("src");
+      video.load();
+      URL.revokeObjectURL(url);
+
+      if (poster) resolve(poster);
+      else reject(error ?? new Error("Could not capture a poster frame."));
+    };
+
+    const timeout = setTimeout(() => finish(new Error("The video took too long to load.")), VIDEO_POSTER_TIMEOUT_MS);
+
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = "auto";
+    video.onerror = () => finish(new Error("The video could not be read."));
+
+    // The very first frame is often black, so seek a little way in
+    video.onloadeddata = () => {
+      video.currentTime = Math.min(1, video.duration / 2);
+    };
+
+    video.onseeked = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      canvas.getContext("2d")?.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      canvas.toBlob((blob) => {
+        if (!blob) return finish();
+
+        const name = file.name.replace(/\.[^.]+$/, "") + "-poster.jpg";
+        finish(undefined, new File([blob], name, { type: "image/jpeg" }));
+      }, "image/jpeg", 0.85);
+    };
+
+    video.src = url;
+  });
+
 export function formatDateString(dateString: string) {
   const options: Intl.DateTimeFormatOptions = {
     year: "numeric",
@@ -52,6 +106,45 @@ export const multiFormatDateString = (timestamp: string = ""): string => {
   }
 };
 
-export const checkIsLiked = (likeList: string[], userId: string) => {
-  return likeList.includes(userId);
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+// The uploaded images of a post with their ids and placeholders
+export const getPostImages = (post: IPostSummary): IPostImage[] =>
+  post.imageUrls.map((url, index) => ({
+    url,
+    imageId: post.imageIds[index],
+    blurhash: post.imageBlurhashes[index] || undefined,
+  }));
+
+// Id of a relationship attribute, which may arrive as the related document or as its id
+export const getRelatedId = (value: unknown) => {
+  if (typeof value === "string") return value;
+  if (value && typeof value === "object" && "$id" in value && typeof value.$id === "string") return value.$id;
+  return undefined;
+};
+
+// Tags as typed in the post form, lowercase without the leading # or any duplicates
+export const parseTags = (tags: string = "") => {
+  const parsed = tags.split(",").map((tag) => tag.replace(/\s/g, "").replace(/^#+/, "").toLowerCase());
+  return [...new Set(parsed.filter(Boolean))];
+};
+
+export const getTagPath = (tag: string) => `/tags/${encodeURIComponent(tag)}`;
+
+// All documents of an infinite query, in page order
+export const flattenPages = <T>(data?: { pages: ({ documents: T[] } | undefined)[] }) => {
+  return data?.pages.flatMap((page) => page?.documents ?? []) ?? [];
+}
+
+export const checkIsLiked = (likes: ILike[] = [], postId: string = "") => {
+  return likes.some((like) => like.postId === postId);
+}
+
+export const extractMentions = (text: string = "") => {
+  const mentions = text.match(/@([\w.]+)/g) || [];
+  return [...new Set(mentions.map((mention) => mention.slice(1)))];
 }
@@ -1,4 +1,7 @@
 import * as z from "zod";
+import { IComment, IDocument, IDocumentList, IDocumentRef, IFollow, ILike, INotification, IPost, IPostMedia, IPostSummary, IRecentSearch, ISave, ISavedCollection, IUserDocument } from "@/types";
+import { AppError } from "@/lib/errors";
+import { MAX_POST_IMAGES } from "@/constants";
 
 export const SignupValidation = z.object({
     name: z.string().min(2, { message: "Name must be atleast 2 characters long." }),
@@ -22,7 +25,167 @@ export const ProfileValidation = z.object({
 
 export const PostValidation = z.object({
     caption: z.string().min(5, { message: "Minimum 5 characters. " }).max(2200, { message: "Maximum 2200 characters!"}),
-    file: z.custom<File[]>(),
+    media: z.custom<IPostMedia>()
+        .refine(({ images, video }) => images.length > 0 || !!video, { message: "Add at least one photo or a video." })
+        .refine(({ images }) => images.length <= MAX_POST_IMAGES, { message: `Maximum ${MAX_POST_IMAGES} photos!` }),
     location: z.string().min(1, { message: "This field is required!"}).max(1000, { message: "Maximum 1000 characters!"}),
     tags: z.string(),
-});
\ No newline at end of file
+});
+
+export const CommentValidation = z.object({
+    content: z.string().min(1, { message: "Comment cannot be empty!" }).max(2200, { message: "Maximum 2200 characters!"}),
+});
+
+// Backend documents
+
+const DocumentSchema = z.object({
+    $id: z.string(),
+    $collectionId: z.string(),
+    $databaseId: z.string(),
+    $createdAt: z.string(),
+    $updatedAt: z.string(),
+    $permissions: z.array(z.string()),
+});
+
+// Relationships beyond the expansion depth come back as ids, or not at all
+const DocumentRefSchema: z.ZodType<IDocumentRef, z.ZodTypeDef, unknown> = z.union([
+    z.string().transform(($id) => ({ $id })),
+    z.object({ $id: z.string() }).transform(({ $id }) => ({ $id })),
+]);
+
+const nested = <T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>) =>
+    z.union([schema, z.string(), z.null()])
+        .optional()
+        .transform((value) => (value && typeof value === "object" ? value : undefined));
+
+export const UserDocumentSchema: z.ZodType<IUserDocument, z.ZodTypeDef, unknown> = z.lazy(() =>
+    DocumentSchema.extend({
+        accountId: z.string(),
+        name: z.string(),
+        username: z.string(),
+        email: z.string(),
+        imageUrl: z.string(),
+        imageId: z.string().nullish(),
+        bio: z.string().nullish(),
+        posts: z.array(PostSummarySchema).optional(),
+        save: z.array(SaveSchema).optional(),
+    })
+);
+
+const PostFieldsSchema = DocumentSchema.extend({
+    caption: z.string(),
+    imageUrl: z.string(),
+    imageId: z.string(),
+    imageUrls: z.array(z.string()).nullish(),
+    imageIds: z.array(z.string()).nullish(),
+    imageBlurhashes: z.array(z.string()).nullish(),
+    location: z.string().nullish(),
+    tags: z.array(z.string()),
+    // Posts created before likes were counted have no likesCount yet, only their legacy likes relationship
+    likesCount: z.number().nullish(),
+    likes: z.array(z.unknown()).nullish(),
+    savesCount: z.number().nullish().transform((count) => count ?? 0),
+    commentsCount: z.number().nullish().transform((count) => count ?? 0),
+    rankScore: z.number().nullish(),
+    // Posts from before videos are image posts
+    mediaType: z.enum(["image", "video"]).nullish().transform((type) => type ?? "image"),
+    videoUrl: z.string().nullish(),
+    videoId: z.string().nullish(),
+});
+
+// Posts from before carousels only have their single image, and those from before the likes collection
+// are counted from their legacy likes until they are migrated
+const withDefaults = <T extends z.infer<typeof PostFieldsSchema>>({ likes, ...post }: T) => ({
+    ...post,
+    likesCount: post.likesCount ?? likes?.length ?? 0,
+    imageUrls: post.imageUrls?.length ? post.imageUrls : [post.imageUrl],
+    imageIds: post.imageIds?.length ? post.imageIds : [post.imageId],
+    imageBlurhashes: post.imageBlurhashes ?? [],
+});
+
+export const PostSchema: z.ZodType<IPost, z.ZodTypeDef, unknown> = z.lazy(() =>
+    PostFieldsSchema.extend({
+        creator: UserDocumentSchema,
+    }).transform(withDefaults)
+);
+
+export const PostSummarySchema: z.ZodType<IPostSummary, z.ZodTypeDef, unknown> = z.lazy(() =>
+    PostFieldsSchema.extend({
+        creator: nested(UserDocumentSchema),
+    }).transform(withDefaults)
+);
+
+export const SaveSchema: z.ZodType<ISave, z.ZodTypeDef, unknown> = z.lazy(() =>
+    DocumentSchema.extend({
+        userId: z.string().nullish(),
+        user: DocumentRefSchema.optional(),
+        post: nested(PostSummarySchema),
+        collectionId: z.string().nullish(),
+    })
+);
+
+export const SavedCollectionSchema: z.ZodType<ISavedCollection, z.ZodTypeDef, unknown> = DocumentSchema.extend({
+    userId: z.string(),
+    name: z.string(),
+});
+
+export const LikeSchema: z.ZodType<ILike, z.ZodTypeDef, unknown> = DocumentSchema.extend({
+    userId: z.string(),
+    postId: z.string(),
+});
+
+export const FollowSchema: z.ZodType<IFollow, z.ZodTypeDef, unknown> = DocumentSchema.extend({
+    followerId: z.string(),
+    followingId: z.string(),
+});
+
+export const CommentSchema: z.ZodType<IComment, z.ZodTypeDef, unknown> = DocumentSchema.extend({
+    postId: z.string(),
+    creator: nested(UserDocumentSchema),
+    content: z.string(),
+    parentId: z.string().nullish(),
+});
+
+export const NotificationSchema: z.ZodType<INotification, z.ZodTypeDef, unknown> = DocumentSchema.extend({
+    recipientId: z.string(),
+    actor: nested(UserDocumentSchema),
+    type: z.enum(["like", "save", "comment", "follow", "mention"]),
+    postId: z.string().nullish(),
+    read: z.boolean(),
+});
+
+// Recent searches may come from localStorage, so they only need the fields they are shown with
+export const RecentSearchSchema: z.ZodType<IRecentSearch, z.ZodTypeDef, unknown> = z.object({
+    $id: z.string(),
+    userId: z.string(),
+    query: z.string(),
+    $createdAt: z.string(),
+});
+
+export type ModelSchema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+// Parses a backend document, naming the document and the mismatched fields on failure
+export function parseDocument<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, document: unknown): T {
+    const result = schema.safeParse(document);
+
+    if (!result.success) {
+        const { $id, $collectionId } = (document ?? {}) as { $id?: string; $collectionId?: string };
+        const issues = result.error.issues
+            .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+            .join("; ");
+
+        throw new AppError("validation", `Invalid document ${$id ?? "(unknown)"} in ${$collectionId ?? "(unknown)"}: ${issues}`);
+    }
+
+    return result.data;
+}
+
+export function parseDocumentList<T extends IDocument>(
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    list: { total: number; documents: unknown[] }
+): IDocumentList<T> {
+    return {
+        total: list.total,
+        documents: list.documents.map((document) => parseDocument(schema, document)),
+    };
+}
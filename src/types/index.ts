@@ -8,29 +8,138 @@ export type IUpdateUser = {
   userId: string;
   name: string;
   bio: string;
-  imageId: string;
+  imageId?: string | null;
   imageUrl: URL | string;
   file: File[];
 };
 
-export type INewPost = {
+export type IUploadProgress = {
+  uploaded: number;
+  total: number;
+};
+
+export type IUploadOptions = {
+  signal?: AbortSignal;
+  onProgress?: (progress: IUploadProgress) => void;
+};
+
+export type INewPost = IUploadOptions & {
   userId: string;
   caption: string;
+  // The images, or the poster frame of a video post
   file: File[];
+  video?: File;
   location?: string;
   tags?: string;
 };
 
-export type IUpdatePost = {
+export type IUpdatePost = IUploadOptions & {
   postId: string;
   caption: string;
-  imageId: string;
-  imageUrl: URL;
-  file: File[];
+  // The caption before the edit, whose mentions were already notified
+  previousCaption: string;
+  // The post's images in their new order, and the ids it had before the edit
+  images: IPostImage[];
+  imageIds: string[];
+  video?: IPostVideo;
+  videoId?: string | null;
   location?: string;
   tags?: string;
 };
 
+// An image in the post form, already uploaded when imageId is set and a new file otherwise
+export type IPostImage = {
+  url: string;
+  imageId?: string;
+  file?: File;
+  // Size of the file as it was dropped, before it was optimized
+  originalSize?: number;
+  blurhash?: string;
+};
+
+// A clip in the post form, with the frame shown until it plays
+export type IPostVideo = {
+  url: string;
+  videoId?: string;
+  file?: File;
+  poster: IPostImage;
+};
+
+// What the post form collects, either images or a single video
+export type IPostMedia = {
+  images: IPostImage[];
+  video?: IPostVideo;
+};
+
+// Where a photo was taken, read from its EXIF data and only used if the user asks for it
+export type IPhotoLocation = {
+  latitude: number;
+  longitude: number;
+};
+
+export type IPostMediaType = "image" | "video";
+
+// How far back Explore looks, today and week are rolling windows rather than calendar ones
+export type IExplorePeriod = "today" | "week" | "all";
+
+export type ISearchTab = "top" | "posts" | "people" | "tags" | "places";
+
+// How many posts carry a tag
+export type ITagCount = {
+  tag: string;
+  postsCount: number;
+};
+
+// Tags have no collection, so their pages are cut from a list counted on the fly, with an offset as cursor
+export type ITagPage = {
+  total: number;
+  tags: ITagCount[];
+  cursor: string | null;
+};
+
+// A search a user ran, kept in the backend or, without one, in localStorage
+export type IRecentSearch = {
+  $id: string;
+  userId: string;
+  query: string;
+  $createdAt: string;
+};
+
+// Typeahead matches shown while a search is typed
+export type ISearchSuggestions = {
+  users: IUserDocument[];
+  tags: ITagCount[];
+  locations: string[];
+};
+
+export type IExploreFilters = {
+  period: IExplorePeriod;
+  mediaType: IPostMediaType | "all";
+  // A single tag, empty for every tag
+  tag: string;
+};
+
+export type INewComment = {
+  postId: string;
+  userId: string;
+  content: string;
+  parentId?: string;
+};
+
+export type IUpdateComment = {
+  commentId: string;
+  content: string;
+};
+
+export type INotificationType = "like" | "save" | "comment" | "follow" | "mention";
+
+export type INewNotification = {
+  recipientId: string;
+  actorId: string;
+  type: INotificationType;
+  postId?: string;
+};
+
 export type IUser = {
   id: string;
   name: string;
@@ -45,4 +154,116 @@ export type INewUser = {
   email: string;
   username: string;
   password: string;
-};
\ No newline at end of file
+};
+
+// Documents as returned by the backend, after runtime validation
+
+export type IDocument = {
+  $id: string;
+  $collectionId: string;
+  $databaseId: string;
+  $createdAt: string;
+  $updatedAt: string;
+  $permissions: string[];
+};
+
+export type IDocumentList<T extends IDocument> = {
+  total: number;
+  documents: T[];
+};
+
+// A page of a cursor-paginated list, cursor is null on the last page
+export type IDocumentPage<T extends IDocument> = IDocumentList<T> & {
+  cursor: string | null;
+};
+
+// A relationship that may not be expanded at this depth
+export type IDocumentRef = {
+  $id: string;
+};
+
+export type IUserDocument = IDocument & {
+  accountId: string;
+  name: string;
+  username: string;
+  email: string;
+  imageUrl: string;
+  imageId?: string | null;
+  bio?: string | null;
+  posts?: IPostSummary[];
+  save?: ISave[];
+};
+
+export type IPost = IDocument & {
+  creator: IUserDocument;
+  caption: string;
+  // The first image, kept as the cover, or the poster frame of a video
+  imageUrl: string;
+  imageId: string;
+  imageUrls: string[];
+  imageIds: string[];
+  // Placeholders for imageIds in the same order, empty where none could be computed
+  imageBlurhashes: string[];
+  mediaType: IPostMediaType;
+  videoUrl?: string | null;
+  videoId?: string | null;
+  location?: string | null;
+  tags: string[];
+  likesCount: number;
+  savesCount: number;
+  commentsCount: number;
+  // Explore ranking, see getRankScore, missing on posts nobody engaged with since it was added
+  rankScore?: number | null;
+};
+
+// A post nested in another document, where its own relationships may be missing
+export type IPostSummary = Omit<IPost, "creator"> & {
+  creator?: IUserDocument;
+};
+
+export type ISave = IDocument & {
+  // Plain copy of the user relationship, which Appwrite cannot filter on
+  userId?: string | null;
+  user?: IDocumentRef;
+  post?: IPostSummary;
+  // The saved collection the post was put in, none keeps it only under all saved posts
+  collectionId?: string | null;
+};
+
+// A named folder of a user's saved posts
+export type ISavedCollection = IDocument & {
+  userId: string;
+  name: string;
+};
+
+// A saved collection with what its card shows, its cover is the post saved into it last
+export type ISavedCollectionSummary = ISavedCollection & {
+  savesCount: number;
+  cover?: IPostSummary;
+};
+
+// One record per user and post, kept unique by an index on both
+export type ILike = IDocument & {
+  userId: string;
+  postId: string;
+};
+
+export type IFollow = IDocument & {
+  followerId: string;
+  followingId: string;
+};
+
+export type IComment = IDocument & {
+  postId: string;
+  creator?: IUserDocument;
+  content: string;
+  parentId?: string | null;
+};
+
+export type INotification = IDocument & {
+  recipientId: string;
+  actor?: IUserDocument;
+  type: INotificationType;
+  postId?: string | null;
+  read: boolean;
+};
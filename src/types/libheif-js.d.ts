@@ -0,0 +1,14 @@
+// The parts of libheif-js used to convert HEIC photos, which ships without its own types
+declare module "libheif-js/wasm-bundle" {
+  type HeifImage = {
+    get_width: () => number;
+    get_height: () => number;
+    display: (imageData: ImageData, callback: (displayData: ImageData | null) => void) => void;
+  };
+
+  const libheif: {
+    HeifDecoder: new () => { decode: (buffer: Uint8Array) => HeifImage[] };
+  };
+
+  export default libheif;
+}